@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { hashIndex, pickFree } from './assignment';
+
+describe('hashIndex', () => {
+  it('should map the same key to the same index every time', () => {
+    expect(hashIndex('session-1', 10)).toBe(hashIndex('session-1', 10));
+  });
+
+  it('should stay below the length', () => {
+    for (const key of ['a', 'b', 'c', 'session-1', 'session-2']) {
+      const index = hashIndex(key, 3);
+      expect(index).toBeGreaterThanOrEqual(0);
+      expect(index).toBeLessThan(3);
+    }
+  });
+
+  it('should spread keys over the indexes', () => {
+    const indexes = new Set(Array.from({ length: 50 }, (_, i) => hashIndex(`session-${i}`, 5)));
+
+    expect(indexes.size).toBe(5);
+  });
+});
+
+describe('pickFree', () => {
+  const voices = ['Alex', 'Daniel', 'Karen'];
+
+  it('should pick the candidate at the start when it is free', () => {
+    expect(pickFree(voices, 1, new Set())).toBe('Daniel');
+  });
+
+  it('should skip held candidates, wrapping around', () => {
+    expect(pickFree(voices, 1, new Set(['Daniel', 'Karen']))).toBe('Alex');
+  });
+
+  it('should share the candidate at the start when every one is held', () => {
+    expect(pickFree(voices, 2, new Set(voices))).toBe('Karen');
+  });
+});
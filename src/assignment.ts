@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+
+// How new sessions are given a voice and name: in turn, or derived from the session ID
+export const ASSIGNMENT_MODES = ['rotation', 'hash'] as const;
+export type AssignmentMode = typeof ASSIGNMENT_MODES[number];
+
+/**
+ * Map a key to an index below length, the same on every machine
+ */
+export function hashIndex(key: string, length: number): number {
+  return createHash('sha256').update(key).digest().readUInt32BE(0) % length;
+}
+
+/**
+ * Pick the first candidate at or after the start index, wrapping around,
+ * that is not held. When every candidate is held, the one at the start is shared.
+ */
+export function pickFree(candidates: readonly string[], start: number, held: ReadonlySet<string>): string {
+  for (let offset = 0; offset < candidates.length; offset++) {
+    const candidate = candidates[(start + offset) % candidates.length];
+    if (!held.has(candidate)) {
+      return candidate;
+    }
+  }
+  return candidates[start % candidates.length];
+}
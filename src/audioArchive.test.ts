@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AudioArchive } from './audioArchive';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('AudioArchive', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-audio-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should name files after the message ID', () => {
+    const archive = new AudioArchive(directory);
+
+    expect(archive.pathFor('msg_1', 'aiff')).toBe(join(directory, 'msg_1.aiff'));
+  });
+
+  it('should write added files to the index', () => {
+    const archive = new AudioArchive(directory);
+    const record = { messageId: 'msg_1', file: join(directory, 'msg_1.wav'), text: 'Hello', sessionId: 's1', voice: 'en-us', timestamp: 1 };
+
+    archive.add(record);
+
+    expect(archive.find('msg_1')).toEqual([record]);
+    expect(JSON.parse(readFileSync(join(directory, 'index.json'), 'utf-8'))).toEqual([record]);
+  });
+
+  it('should load the index written by an earlier server', () => {
+    new AudioArchive(directory).add({ messageId: 'msg_1', file: 'msg_1.wav', text: 'Hello', timestamp: 1 });
+
+    expect(new AudioArchive(directory).find('msg_1')).toHaveLength(1);
+  });
+
+  it('should find the files of every part of a split message', () => {
+    const archive = new AudioArchive(directory);
+    archive.add({ messageId: 'msg_1.1', file: 'msg_1.1.wav', text: 'One.', timestamp: 1 });
+    archive.add({ messageId: 'msg_1.2', file: 'msg_1.2.wav', text: 'Two.', timestamp: 2 });
+    archive.add({ messageId: 'msg_10', file: 'msg_10.wav', text: 'Other.', timestamp: 3 });
+
+    expect(archive.find('msg_1').map(record => record.file)).toEqual(['msg_1.1.wav', 'msg_1.2.wav']);
+  });
+});
@@ -0,0 +1,84 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { AudioFormat } from './speechEngine.js';
+
+// Directory used when --output-dir is not given
+export const DEFAULT_AUDIO_DIR = join(homedir(), '.local', 'share', 'talkback-mcp', 'audio');
+
+export interface AudioFileRecord {
+  messageId: string;
+  file: string;
+  text: string;
+  sessionId?: string;
+  voice?: string;
+  // Time the file was rendered
+  timestamp: number;
+}
+
+/**
+ * Directory of rendered messages with a JSON index, so the audio of a message
+ * can be found by its ID after it was spoken
+ */
+export class AudioArchive {
+  private readonly directory: string;
+  private readonly indexFile: string;
+  private records: AudioFileRecord[] = [];
+
+  constructor(directory: string = DEFAULT_AUDIO_DIR) {
+    this.directory = directory;
+    this.indexFile = join(directory, 'index.json');
+    mkdirSync(directory, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Path of the file a message is rendered to
+   */
+  pathFor(messageId: string, format: AudioFormat): string {
+    return join(this.directory, `${messageId}.${format}`);
+  }
+
+  /**
+   * Add a rendered file to the index
+   */
+  add(record: AudioFileRecord): void {
+    this.records = this.records.filter(existing => existing.messageId !== record.messageId);
+    this.records.push(record);
+    this.save();
+  }
+
+  /**
+   * Get the files of a message. A message that was split into sentences has one file per part.
+   */
+  find(messageId: string): AudioFileRecord[] {
+    return this.records.filter(record =>
+      record.messageId === messageId || record.messageId.startsWith(`${messageId}.`)
+    );
+  }
+
+  /**
+   * Load the index from disk
+   */
+  private load(): void {
+    try {
+      if (existsSync(this.indexFile)) {
+        this.records = JSON.parse(readFileSync(this.indexFile, 'utf-8')) as AudioFileRecord[];
+      }
+    } catch (error) {
+      console.error('Error loading audio index from disk:', error);
+      this.records = [];
+    }
+  }
+
+  /**
+   * Save the index to disk
+   */
+  private save(): void {
+    try {
+      writeFileSync(this.indexFile, JSON.stringify(this.records, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving audio index to disk:', error);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AudioCache } from './audioCache';
+import { mkdtempSync, writeFileSync, existsSync, rmSync, utimesSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('AudioCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Simulate an engine rendering a file of the given size
+   */
+  function render(cache: AudioCache, key: string, size: number): string {
+    const renderedFile = cache.renderPathFor(key, 'wav');
+    writeFileSync(renderedFile, Buffer.alloc(size));
+    return cache.store(key, renderedFile);
+  }
+
+  describe('key', () => {
+    it('should depend on the engine, voice, rate and text', () => {
+      const cache = new AudioCache(directory);
+      const key = cache.key('say', 'Running the tests', { voice: 'Alex', rate: 200 });
+
+      expect(key).toMatch(/^[0-9a-f]{64}$/);
+      expect(cache.key('say', 'Running  the tests ', { voice: 'Alex', rate: 200 })).toBe(key);
+      expect(cache.key('espeak-ng', 'Running the tests', { voice: 'Alex', rate: 200 })).not.toBe(key);
+      expect(cache.key('say', 'Running the tests', { voice: 'Fred', rate: 200 })).not.toBe(key);
+      expect(cache.key('say', 'Running the tests', { voice: 'Alex', rate: 250 })).not.toBe(key);
+      expect(cache.key('say', 'Running the build', { voice: 'Alex', rate: 200 })).not.toBe(key);
+    });
+  });
+
+  describe('lookup and store', () => {
+    it('should miss, then hit once the audio is stored', () => {
+      const cache = new AudioCache(directory);
+      const key = cache.key('say', 'Hello');
+
+      expect(cache.lookup(key)).toBeUndefined();
+      const file = render(cache, key, 100);
+
+      expect(file).toBe(join(directory, `${key}.wav`));
+      expect(cache.lookup(key)).toBe(file);
+      expect(cache.stats()).toEqual({ entries: 1, sizeBytes: 100, maxSizeBytes: 100 * 1024 * 1024, hits: 1, misses: 1, evictions: 0 });
+    });
+
+    it('should miss when the cached file was deleted', () => {
+      const cache = new AudioCache(directory);
+      const file = render(cache, 'a'.repeat(64), 100);
+      rmSync(file);
+
+      expect(cache.lookup('a'.repeat(64))).toBeUndefined();
+      expect(cache.stats().entries).toBe(0);
+    });
+
+    it('should discard rendered files that are not stored', () => {
+      const cache = new AudioCache(directory);
+      const renderedFile = cache.renderPathFor('a'.repeat(64), 'aiff');
+      writeFileSync(renderedFile, 'partial');
+
+      cache.discard(renderedFile);
+
+      expect(existsSync(renderedFile)).toBe(false);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict the least recently used files over the size limit', () => {
+      const cache = new AudioCache(directory, 250);
+      const [first, second, third] = ['a', 'b', 'c'].map(letter => letter.repeat(64));
+      const firstFile = render(cache, first, 100);
+      const secondFile = render(cache, second, 100);
+      cache.lookup(first);
+
+      render(cache, third, 100);
+
+      expect(existsSync(firstFile)).toBe(true);
+      expect(existsSync(secondFile)).toBe(false);
+      expect(cache.stats()).toMatchObject({ entries: 2, sizeBytes: 200, evictions: 1 });
+    });
+
+    it('should keep a file larger than the limit until the next one is stored', () => {
+      const cache = new AudioCache(directory, 50);
+      const file = render(cache, 'a'.repeat(64), 100);
+
+      expect(existsSync(file)).toBe(true);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should reuse files cached by an earlier server in recency order', () => {
+      const [first, second] = ['a', 'b'].map(letter => letter.repeat(64));
+      writeFileSync(join(directory, `${first}.wav`), Buffer.alloc(100));
+      writeFileSync(join(directory, `${second}.aiff`), Buffer.alloc(100));
+      writeFileSync(join(directory, 'notes.txt'), 'ignored');
+      utimesSync(join(directory, `${first}.wav`), new Date(2000), new Date(2000));
+
+      const cache = new AudioCache(directory, 150);
+
+      expect(cache.stats()).toMatchObject({ entries: 1, sizeBytes: 100, evictions: 1 });
+      expect(cache.lookup(second)).toBe(join(directory, `${second}.aiff`));
+      expect(existsSync(join(directory, `${first}.wav`))).toBe(false);
+    });
+  });
+});
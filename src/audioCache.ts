@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readdirSync, statSync, renameSync, rmSync, existsSync, utimesSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { AudioFormat, SpeechOptions } from './speechEngine.js';
+
+// Directory used when --cache-dir is not given
+export const DEFAULT_CACHE_DIR = join(homedir(), '.cache', 'talkback-mcp', 'audio');
+
+export interface AudioCacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxSizeBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+// Cached files are named after their key, so files left by an earlier server can be reused
+const CACHED_FILE_PATTERN = /^([0-9a-f]{64})\.(wav|aiff)$/;
+
+/**
+ * Content-addressed cache of rendered speech, evicting the least recently
+ * played files once the cache grows beyond its size limit
+ */
+export class AudioCache {
+  private readonly directory: string;
+  private readonly maxSizeBytes: number;
+  // Map iteration order is the recency order, least recently used first
+  private entries = new Map<string, { file: string; size: number }>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(directory: string = DEFAULT_CACHE_DIR, maxSizeBytes = 100 * 1024 * 1024) {
+    this.directory = directory;
+    this.maxSizeBytes = maxSizeBytes;
+    mkdirSync(directory, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Key of the audio for a text spoken by an engine with the given settings
+   */
+  key(engineName: string, text: string, options: SpeechOptions = {}): string {
+    const normalizedText = text.replace(/\s+/g, ' ').trim();
+    return createHash('sha256')
+      .update(JSON.stringify([
+        engineName,
+        options.voice ?? null,
+        options.rate ?? null,
+        options.pitch ?? null,
+        options.volume ?? null,
+        options.format ?? 'text',
+        normalizedText,
+      ]))
+      .digest('hex');
+  }
+
+  /**
+   * Get the cached file for a key, marking it as recently used
+   */
+  lookup(key: string): string | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || !existsSync(entry.file)) {
+      // The file may have been evicted by another server sharing the directory
+      if (entry) {
+        this.remove(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+
+    try {
+      // Keep the recency across restarts, which order cached files by modification time
+      const now = new Date();
+      utimesSync(entry.file, now, now);
+    } catch {
+      // Recency on disk is best effort
+    }
+    return entry.file;
+  }
+
+  /**
+   * Path to render audio to before it is added with store()
+   */
+  renderPathFor(key: string, format: AudioFormat): string {
+    // Engines pick the file type from the extension, so it has to stay last
+    return join(this.directory, `${key}-${process.pid}-rendering.${format}`);
+  }
+
+  /**
+   * Add a rendered file to the cache and evict the least recently used files
+   * over the size limit. Returns the path of the cached file.
+   */
+  store(key: string, renderedFile: string): string {
+    const format = renderedFile.slice(renderedFile.lastIndexOf('.') + 1);
+    const file = join(this.directory, `${key}.${format}`);
+    renameSync(renderedFile, file);
+
+    if (this.entries.has(key)) {
+      this.remove(key);
+    }
+    this.add(key, file, statSync(file).size);
+    this.evict();
+    return file;
+  }
+
+  /**
+   * Delete a rendered file that will not be stored, such as one whose rendering was stopped
+   */
+  discard(renderedFile: string): void {
+    rmSync(renderedFile, { force: true });
+  }
+
+  /**
+   * Get hit, miss and size statistics
+   */
+  stats(): AudioCacheStats {
+    return {
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Index the files cached by earlier servers, least recently modified first
+   */
+  private load(): void {
+    try {
+      readdirSync(this.directory)
+        .map(name => ({ name, match: name.match(CACHED_FILE_PATTERN) }))
+        .filter(({ match }) => match !== null)
+        .map(({ name, match }) => ({ key: match![1], file: join(this.directory, name), stats: statSync(join(this.directory, name)) }))
+        .sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs)
+        .forEach(({ key, file, stats }) => this.add(key, file, stats.size));
+      this.evict();
+    } catch (error) {
+      console.error('Error loading audio cache from disk:', error);
+    }
+  }
+
+  private add(key: string, file: string, size: number): void {
+    this.entries.set(key, { file, size });
+    this.sizeBytes += size;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.sizeBytes -= entry.size;
+    }
+  }
+
+  /**
+   * Delete least recently used files until the cache fits its size limit,
+   * always keeping the newest file
+   */
+  private evict(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.sizeBytes <= this.maxSizeBytes || this.entries.size <= 1) {
+        break;
+      }
+      this.remove(key);
+      rmSync(entry.file, { force: true });
+      this.evictions++;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * Plays rendered audio files through the platform's command-line player
+ */
+export class AudioPlayer {
+  private readonly command: string;
+  private currentProcess: ChildProcess | null = null;
+
+  constructor(command: string = process.platform === 'darwin' ? 'afplay' : 'aplay') {
+    this.command = command;
+  }
+
+  /**
+   * Play a file, resolving once playback has finished
+   */
+  play(file: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, [file]);
+      this.currentProcess = child;
+
+      child.on('close', (code) => {
+        if (this.currentProcess === child) {
+          this.currentProcess = null;
+        }
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${this.command} command exited with code ${code}`));
+        }
+      });
+
+      child.on('error', (error) => {
+        if (this.currentProcess === child) {
+          this.currentProcess = null;
+        }
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Stop the file that is currently playing
+   */
+  stop(): void {
+    if (this.currentProcess) {
+      this.currentProcess.kill();
+      this.currentProcess = null;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadConfig, ConfigError, PROJECT_CONFIG_FILE } from './config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir, homedir } from 'os';
+
+describe('config', () => {
+  let directory: string;
+  let userConfigPath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-config-'));
+    userConfigPath = join(directory, 'config.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const load = (args: string[] = [], env: NodeJS.ProcessEnv = {}) =>
+    loadConfig({ args, env, cwd: directory, userConfigPath });
+
+  const writeConfig = (file: string, data: unknown) => writeFileSync(file, JSON.stringify(data), 'utf-8');
+
+  describe('loadConfig', () => {
+    it('should use the defaults without config files', () => {
+      const config = load([], { LANG: 'fr_FR.UTF-8' });
+
+      expect(config.engine).toBe('auto');
+      expect(config.locale).toBe('fr');
+      expect(config.limits.maxMessageLength).toBe(500);
+      expect(config.names).toContain('Alex');
+      expect(config.normalize).toContain('markdown');
+    });
+
+    it('should layer the project file, environment and flags over the user file', () => {
+      writeConfig(userConfigPath, { engine: 'say', names: ['Ada'], limits: { maxMessageLength: 300, ttlSeconds: 30 } });
+      writeConfig(join(directory, PROJECT_CONFIG_FILE), { engine: 'espeak-ng', limits: { maxMessageLength: 400 } });
+
+      const config = load(['--max-length', '600'], { TALKBACK_ENGINE: 'piper' });
+
+      expect(config.names).toEqual(['Ada']);
+      expect(config.engine).toBe('piper');
+      expect(config.limits).toMatchObject({ maxMessageLength: 600, ttlSeconds: 30, maxChunkedLength: 2000 });
+    });
+
+    it('should read the file given by --config instead of the user file', () => {
+      const customPath = join(directory, 'custom.json');
+      writeConfig(userConfigPath, { engine: 'say' });
+      writeConfig(customPath, { prompts: { introduction: 'Hi, {name} here.' } });
+
+      const config = load(['--config', customPath]);
+
+      expect(config.engine).toBe('auto');
+      expect(config.prompts.introduction).toBe('Hi, {name} here.');
+    });
+
+    it('should parse lists, booleans and normalization rules from flags and environment variables', () => {
+      writeConfig(userConfigPath, { chunk: true, cache: { enabled: true } });
+
+      const config = load(['--no-chunk', '--normalize', 'markdown,urls'], { TALKBACK_VOICES: 'Daniel, Karen', TALKBACK_DEBUG: '1' });
+
+      expect(config.chunk).toBe(false);
+      expect(config.cache.enabled).toBe(true);
+      expect(config.normalize).toEqual(['markdown', 'urls']);
+      expect(config.voices).toEqual(['Daniel', 'Karen']);
+      expect(config.debug).toBe(true);
+    });
+
+    it('should expand the home directory in storage paths', () => {
+      writeConfig(userConfigPath, { storage: { lexicon: '~/talkback/lexicon.json' } });
+
+      const config = load(['--output-dir', '~/audio']);
+
+      expect(config.storage.lexicon).toBe(join(homedir(), 'talkback', 'lexicon.json'));
+      expect(config.storage.audio).toBe(join(homedir(), 'audio'));
+    });
+
+    it('should reject invalid values with the file and option', () => {
+      writeConfig(userConfigPath, { limits: { maxMessageLength: 0 } });
+
+      expect(() => load()).toThrow(ConfigError);
+      expect(() => load()).toThrow(`Invalid config file ${userConfigPath}: limits.maxMessageLength must be a number of at least 1, got 0`);
+    });
+
+    it('should reject unknown options and values of the wrong shape', () => {
+      writeConfig(userConfigPath, { limts: {} });
+      expect(() => load()).toThrow('unknown option "limts"');
+
+      writeConfig(userConfigPath, { limits: 500 });
+      expect(() => load()).toThrow('limits must be an object');
+
+      writeConfig(userConfigPath, { names: [] });
+      expect(() => load()).toThrow('names must list at least 1 entry');
+
+      writeConfig(userConfigPath, { output: 'speakers' });
+      expect(() => load()).toThrow('output must be one of: play, file, both, got "speakers"');
+    });
+
+    it('should merge custom profiles with the built-in ones across layers', () => {
+      writeConfig(userConfigPath, { profiles: { terse: 'Only speak when done.' } });
+      writeConfig(join(directory, PROJECT_CONFIG_FILE), { profile: 'terse', profiles: { 'errors-only': 'Speak on errors.' } });
+
+      const config = load();
+
+      expect(config.profile).toBe('terse');
+      expect(config.profiles).toMatchObject({ 'terse': 'Only speak when done.', 'errors-only': 'Speak on errors.' });
+      expect(config.profiles.chatty).toContain('every upcoming instruction');
+    });
+
+    it('should reject a default profile that is not defined', () => {
+      expect(() => load(['--profile', 'silent'])).toThrow('profile must be one of: chatty, questions-only, errors-only, got "silent"');
+
+      writeConfig(userConfigPath, { profiles: { terse: '' } });
+      expect(() => load()).toThrow('profiles must be an object of non-empty strings');
+    });
+
+    it('should reject malformed JSON', () => {
+      writeFileSync(userConfigPath, '{ "engine": ', 'utf-8');
+
+      expect(() => load()).toThrow(`Could not read config file ${userConfigPath}`);
+    });
+
+    it('should name the flag or environment variable of an invalid value', () => {
+      expect(() => load(['--ttl', 'soon'])).toThrow('--ttl must be a number of at least 0, got "soon"');
+      expect(() => load([], { TALKBACK_ENGINE: 'festival' })).toThrow('TALKBACK_ENGINE must be one of: auto, say');
+      expect(() => load(['--normalize', 'shouting'])).toThrow('Invalid --normalize: Unknown normalization rule "shouting"');
+      expect(() => load(['--engine'])).toThrow('--engine requires a value');
+    });
+
+    it('should reject unknown flags', () => {
+      expect(() => load(['--enigne', 'say'])).toThrow('Unknown flag --enigne');
+      expect(() => load(['--no-engine'])).toThrow('Unknown flag --no-engine');
+      expect(load(['--no-daemon', '--engine', 'say']).engine).toBe('say');
+    });
+
+    it('should reject a missing config file that was asked for', () => {
+      expect(() => load([], { TALKBACK_CONFIG: join(directory, 'missing.json') })).toThrow('does not exist');
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { SPEECH_ENGINES } from './speechEngine.js';
+import { OUTPUT_MODES, OutputMode } from './messageQueue.js';
+import { NORMALIZATION_RULES, NormalizationRule, parseNormalizationRules } from './textNormalizer.js';
+import { DEFAULT_SESSION_DIR, SESSION_SCOPES, SessionScope } from './sessionStorage.js';
+import { DEFAULT_LEXICON_PATH } from './lexicon.js';
+import { DEFAULT_AUDIO_DIR } from './audioArchive.js';
+import { DEFAULT_CACHE_DIR } from './audioCache.js';
+import { ASSIGNMENT_MODES, AssignmentMode } from './assignment.js';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, DEFAULT_INTRODUCTION, DEFAULT_INSTRUCTIONS } from './prompts.js';
+
+// User-wide config file, replaced by --config or TALKBACK_CONFIG
+export const USER_CONFIG_PATH = join(homedir(), '.config', 'talkback-mcp', 'config.json');
+
+// Config file in the working directory that overrides the user-wide one
+export const PROJECT_CONFIG_FILE = '.talkback.json';
+
+export interface TalkbackConfig {
+  debug: boolean;
+  // Speech engine name, or "auto" to probe for an installed engine
+  engine: string;
+  // Locale used to filter discovered voices
+  locale: string;
+  // Preferred voices for different sessions, used when they are installed
+  voices: string[];
+  // Names sessions introduce themselves with
+  names: string[];
+  // How new sessions get a voice and name; "hash" gives a session ID the same ones on every machine
+  assignment: AssignmentMode;
+  limits: {
+    maxMessageLength: number;
+    // Overall character cap of a message split into sentences
+    maxChunkedLength: number;
+    dedupeWindowSeconds: number;
+    ttlSeconds: number;
+    // Sessions unused for this long are deleted, freeing their voice (0 keeps them)
+    sessionIdleSeconds: number;
+    // Most sessions kept in storage, deleting the least recently active (0 keeps all)
+    maxSessions: number;
+  };
+  chunk: boolean;
+  normalize: NormalizationRule[];
+  output: OutputMode;
+  announce: boolean;
+  cache: {
+    enabled: boolean;
+    sizeMegabytes: number;
+  };
+  // Profile of sessions that do not choose one when enabling speech
+  profile: string;
+  // Rules for when sessions speak by profile name, including the built-in profiles
+  profiles: Record<string, string>;
+  // Texts given to sessions when speech is enabled, with {name}, {voice}, {sessionId} and {verbosity} placeholders
+  prompts: {
+    introduction: string;
+    instructions: string;
+  };
+  // Share one speech queue between the stdio servers on the machine
+  daemon: boolean;
+  // Serve MCP over HTTP on this port instead of stdio
+  http: {
+    port?: number;
+    host: string;
+  };
+  storage: {
+    sessions: string;
+    sessionScope: SessionScope;
+    lexicon: string;
+    audio: string;
+    cache: string;
+    // Directory of custom earcon sound files
+    earcons?: string;
+  };
+}
+
+/**
+ * Error for a config file, environment variable or flag that fails validation
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+interface ConfigOption {
+  // Dotted path of the option in config files
+  path: string;
+  // Paths are strings whose leading ~ is the home directory, and maps are
+  // objects of strings merged with the layers before them
+  type: 'string' | 'path' | 'number' | 'boolean' | 'list' | 'map';
+  // Accepted strings, or accepted list items
+  values?: readonly string[];
+  // Smallest number, or fewest list items
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  flag?: string;
+  env?: string;
+  // Parse the value of a flag or environment variable, instead of the default for the type
+  parse?: (value: string) => unknown;
+}
+
+// Schema of the configuration, and the flags and environment variables that override each option
+const OPTIONS: ConfigOption[] = [
+  { path: 'debug', type: 'boolean', flag: '--debug', env: 'TALKBACK_DEBUG' },
+  { path: 'engine', type: 'string', values: ['auto', ...SPEECH_ENGINES], flag: '--engine', env: 'TALKBACK_ENGINE' },
+  { path: 'locale', type: 'string', flag: '--locale', env: 'TALKBACK_LOCALE' },
+  { path: 'voices', type: 'list', min: 1, flag: '--voices', env: 'TALKBACK_VOICES' },
+  { path: 'names', type: 'list', min: 1, flag: '--names', env: 'TALKBACK_NAMES' },
+  { path: 'assignment', type: 'string', values: ASSIGNMENT_MODES, flag: '--assignment', env: 'TALKBACK_ASSIGNMENT' },
+  { path: 'limits.maxMessageLength', type: 'number', min: 1, flag: '--max-length', env: 'TALKBACK_MAX_LENGTH' },
+  { path: 'limits.maxChunkedLength', type: 'number', min: 1, flag: '--max-chunked-length' },
+  { path: 'limits.dedupeWindowSeconds', type: 'number', min: 0, flag: '--dedupe-window' },
+  { path: 'limits.ttlSeconds', type: 'number', min: 0, flag: '--ttl' },
+  { path: 'limits.sessionIdleSeconds', type: 'number', min: 0, flag: '--session-idle', env: 'TALKBACK_SESSION_IDLE' },
+  { path: 'limits.maxSessions', type: 'number', min: 0, integer: true, flag: '--max-sessions', env: 'TALKBACK_MAX_SESSIONS' },
+  { path: 'chunk', type: 'boolean', flag: '--chunk' },
+  { path: 'normalize', type: 'list', values: NORMALIZATION_RULES, flag: '--normalize', parse: parseNormalizationRules },
+  { path: 'output', type: 'string', values: OUTPUT_MODES, flag: '--output' },
+  { path: 'announce', type: 'boolean', flag: '--announce' },
+  { path: 'cache.enabled', type: 'boolean', flag: '--cache' },
+  { path: 'cache.sizeMegabytes', type: 'number', min: 0, flag: '--cache-size' },
+  { path: 'profile', type: 'string', flag: '--profile', env: 'TALKBACK_PROFILE' },
+  { path: 'profiles', type: 'map' },
+  { path: 'prompts.introduction', type: 'string' },
+  { path: 'prompts.instructions', type: 'string' },
+  { path: 'daemon', type: 'boolean', flag: '--daemon', env: 'TALKBACK_DAEMON' },
+  { path: 'http.port', type: 'number', min: 1, max: 65535, integer: true, flag: '--http', env: 'TALKBACK_HTTP_PORT' },
+  { path: 'http.host', type: 'string', flag: '--host', env: 'TALKBACK_HTTP_HOST' },
+  { path: 'storage.sessions', type: 'path', flag: '--session-dir', env: 'TALKBACK_SESSION_DIR' },
+  { path: 'storage.sessionScope', type: 'string', values: SESSION_SCOPES, flag: '--session-scope', env: 'TALKBACK_SESSION_SCOPE' },
+  { path: 'storage.lexicon', type: 'path', flag: '--lexicon', env: 'TALKBACK_LEXICON' },
+  { path: 'storage.audio', type: 'path', flag: '--output-dir' },
+  { path: 'storage.cache', type: 'path', flag: '--cache-dir' },
+  { path: 'storage.earcons', type: 'path', flag: '--earcon-dir' },
+];
+
+// Accepted spellings of booleans in environment variables
+const BOOLEAN_WORDS: Record<string, boolean> = {
+  true: true,
+  '1': true,
+  false: false,
+  '0': false,
+};
+
+export interface LoadConfigOptions {
+  args?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  userConfigPath?: string;
+}
+
+/**
+ * Build the configuration from the defaults, the user config file, the project
+ * config file, environment variables and command-line flags, each overriding
+ * the ones before. Throws a ConfigError naming the source of the first invalid value.
+ */
+export function loadConfig({
+  args = process.argv.slice(2),
+  env = process.env,
+  cwd = process.cwd(),
+  userConfigPath = USER_CONFIG_PATH,
+}: LoadConfigOptions = {}): TalkbackConfig {
+  const config = getDefaultConfig(env);
+
+  // A config file that was asked for explicitly has to exist
+  const explicitPath = getFlagValue(args, '--config') ?? env.TALKBACK_CONFIG;
+  const userFile = explicitPath ?? userConfigPath;
+  if (explicitPath !== undefined && !existsSync(explicitPath)) {
+    throw new ConfigError(`Config file ${explicitPath} does not exist`);
+  }
+
+  for (const file of [userFile, join(cwd, PROJECT_CONFIG_FILE)]) {
+    if (existsSync(file)) {
+      applyValues(config, readConfigFile(file));
+    }
+  }
+  applyValues(config, readEnvironment(env));
+  applyValues(config, readFlags(args));
+
+  // The default profile may be defined in any layer, so it is checked once they are all applied
+  if (!Object.prototype.hasOwnProperty.call(config.profiles, config.profile)) {
+    throw new ConfigError(`profile must be one of: ${Object.keys(config.profiles).join(', ')}, got "${config.profile}"`);
+  }
+
+  return config;
+}
+
+function getDefaultConfig(env: NodeJS.ProcessEnv): TalkbackConfig {
+  return {
+    debug: false,
+    engine: 'auto',
+    // Default to the language of LANG, e.g. "en" for en_US.UTF-8
+    locale: env.LANG?.match(/^[a-z]{2,3}(?=[_.@]|$)/)?.[0] ?? 'en',
+    voices: [
+      'Alex', 'Daniel', 'Fred', 'Karen', 'Moira',
+      'Samantha', 'Victoria', 'Fiona', 'Tessa', 'Veena',
+    ],
+    names: [
+      'Alex', 'Morgan', 'Jordan', 'Taylor', 'Casey',
+      'Riley', 'Quinn', 'Avery', 'Parker', 'Charlie',
+      'Sam', 'Jamie', 'Sage', 'Robin', 'Dakota',
+    ],
+    assignment: 'rotation',
+    limits: {
+      maxMessageLength: 500,
+      maxChunkedLength: 2000,
+      dedupeWindowSeconds: 0,
+      ttlSeconds: 0,
+      // One week
+      sessionIdleSeconds: 7 * 24 * 60 * 60,
+      maxSessions: 200,
+    },
+    chunk: false,
+    normalize: [...NORMALIZATION_RULES],
+    output: 'play',
+    announce: false,
+    cache: {
+      enabled: false,
+      sizeMegabytes: 100,
+    },
+    profile: DEFAULT_PROFILE,
+    profiles: { ...BUILT_IN_PROFILES },
+    prompts: {
+      introduction: DEFAULT_INTRODUCTION,
+      instructions: DEFAULT_INSTRUCTIONS,
+    },
+    daemon: true,
+    http: {
+      // Only local clients can connect unless another host is configured
+      host: '127.0.0.1',
+    },
+    storage: {
+      sessions: DEFAULT_SESSION_DIR,
+      sessionScope: 'global',
+      lexicon: DEFAULT_LEXICON_PATH,
+      audio: DEFAULT_AUDIO_DIR,
+      cache: DEFAULT_CACHE_DIR,
+    },
+  };
+}
+
+/**
+ * Read and validate a JSON config file, returning its values by option path
+ */
+function readConfigFile(file: string): Map<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Could not read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isPlainObject(data)) {
+    throw new ConfigError(`Config file ${file} must contain a JSON object`);
+  }
+
+  const values = new Map<string, unknown>();
+  collectValues(data, '', values, file);
+  return values;
+}
+
+function collectValues(data: Record<string, unknown>, prefix: string, values: Map<string, unknown>, file: string): void {
+  for (const [key, value] of Object.entries(data)) {
+    // Lets editors find a JSON schema for the file
+    if (prefix === '' && key === '$schema') {
+      continue;
+    }
+
+    const path = prefix + key;
+    const option = OPTIONS.find(candidate => candidate.path === path);
+    if (option) {
+      const problem = validateValue(option, value);
+      if (problem) {
+        throw new ConfigError(`Invalid config file ${file}: ${path} ${problem}`);
+      }
+      values.set(path, option.type === 'path' ? expandHome(value as string) : value);
+    } else if (OPTIONS.some(candidate => candidate.path.startsWith(`${path}.`))) {
+      if (!isPlainObject(value)) {
+        throw new ConfigError(`Invalid config file ${file}: ${path} must be an object`);
+      }
+      collectValues(value, `${path}.`, values, file);
+    } else {
+      throw new ConfigError(`Invalid config file ${file}: unknown option "${path}"`);
+    }
+  }
+}
+
+function readEnvironment(env: NodeJS.ProcessEnv): Map<string, unknown> {
+  const values = new Map<string, unknown>();
+  for (const option of OPTIONS) {
+    const text = option.env !== undefined ? env[option.env] : undefined;
+    if (text !== undefined && text !== '') {
+      values.set(option.path, parseText(option, text, option.env!));
+    }
+  }
+  return values;
+}
+
+function readFlags(args: string[]): Map<string, unknown> {
+  const knownFlags = new Set(['--config']);
+  for (const option of OPTIONS) {
+    if (option.flag !== undefined) {
+      knownFlags.add(option.flag);
+      if (option.type === 'boolean') {
+        knownFlags.add(`--no-${option.flag.slice(2)}`);
+      }
+    }
+  }
+  const unknown = args.find(arg => arg.startsWith('--') && !knownFlags.has(arg));
+  if (unknown !== undefined) {
+    throw new ConfigError(`Unknown flag ${unknown}`);
+  }
+
+  const values = new Map<string, unknown>();
+  for (const option of OPTIONS) {
+    if (option.flag === undefined) {
+      continue;
+    }
+
+    if (option.type === 'boolean') {
+      // Boolean flags take no value; the --no- form turns on options off again
+      if (args.includes(option.flag)) {
+        values.set(option.path, true);
+      } else if (args.includes(`--no-${option.flag.slice(2)}`)) {
+        values.set(option.path, false);
+      }
+      continue;
+    }
+
+    const text = getFlagValue(args, option.flag);
+    if (text !== undefined) {
+      values.set(option.path, parseText(option, text, option.flag));
+    } else if (args.includes(option.flag)) {
+      throw new ConfigError(`${option.flag} requires a value`);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse the text of a flag or environment variable into a valid option value
+ */
+function parseText(option: ConfigOption, text: string, source: string): unknown {
+  let value: unknown;
+  try {
+    if (option.parse) {
+      value = option.parse(text);
+    } else if (option.type === 'number') {
+      value = text.trim() === '' ? NaN : Number(text);
+    } else if (option.type === 'boolean') {
+      const word = text.toLowerCase();
+      value = Object.prototype.hasOwnProperty.call(BOOLEAN_WORDS, word) ? BOOLEAN_WORDS[word] : text;
+    } else if (option.type === 'list') {
+      value = text.split(',').map(item => item.trim()).filter(item => item !== '');
+    } else if (option.type === 'path') {
+      value = expandHome(text);
+    } else {
+      value = text;
+    }
+  } catch (error) {
+    throw new ConfigError(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Show the text as given, since a parsed value such as NaN reads badly
+  const problem = validateValue(option, value, JSON.stringify(text));
+  if (problem) {
+    throw new ConfigError(`${source} ${problem}`);
+  }
+  return value;
+}
+
+/**
+ * Check a value against its option's schema, returning the problem if it is invalid
+ */
+function validateValue(option: ConfigOption, value: unknown, shown = JSON.stringify(value)): string | undefined {
+  const got = `got ${shown}`;
+
+  switch (option.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `must be true or false, ${got}`;
+    case 'number':
+      if (
+        typeof value !== 'number' || !Number.isFinite(value) ||
+        value < (option.min ?? -Infinity) || value > (option.max ?? Infinity) ||
+        (option.integer && !Number.isInteger(value))
+      ) {
+        return `must be ${describeNumber(option)}, ${got}`;
+      }
+      return undefined;
+    case 'string':
+    case 'path':
+      if (typeof value !== 'string' || value === '') {
+        return `must be a non-empty string, ${got}`;
+      }
+      if (option.values && !option.values.includes(value)) {
+        return `must be one of: ${option.values.join(', ')}, ${got}`;
+      }
+      return undefined;
+    case 'list': {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item === '')) {
+        return `must be a list of non-empty strings, ${got}`;
+      }
+      if (value.length < (option.min ?? 0)) {
+        return `must list at least ${option.min} ${option.min === 1 ? 'entry' : 'entries'}`;
+      }
+      const unknown = option.values ? value.find(item => !option.values!.includes(item)) : undefined;
+      if (unknown !== undefined) {
+        return `may only contain: ${option.values!.join(', ')}, got "${unknown}"`;
+      }
+      return undefined;
+    }
+    case 'map':
+      if (!isPlainObject(value) || Object.values(value).some(item => typeof item !== 'string' || item === '')) {
+        return `must be an object of non-empty strings, ${got}`;
+      }
+      return undefined;
+  }
+}
+
+function describeNumber({ min, max, integer }: ConfigOption): string {
+  const number = integer ? 'a whole number' : 'a number';
+  if (min !== undefined && max !== undefined) {
+    return `${number} from ${min} to ${max}`;
+  }
+  return min !== undefined ? `${number} of at least ${min}` : number;
+}
+
+/**
+ * Set option values on the configuration by their dotted paths
+ */
+function applyValues(config: TalkbackConfig, values: Map<string, unknown>): void {
+  for (const [path, value] of values) {
+    const keys = path.split('.');
+    let target = config as unknown as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      target = target[key] as Record<string, unknown>;
+    }
+
+    const key = keys[keys.length - 1];
+    const option = OPTIONS.find(candidate => candidate.path === path);
+    target[key] = option?.type === 'map'
+      ? { ...(target[key] as Record<string, string>), ...(value as Record<string, string>) }
+      : value;
+  }
+}
+
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  const value = index !== -1 ? args[index + 1] : undefined;
+  return value !== undefined && !value.startsWith('--') ? value : undefined;
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SpeechDaemon, ToolCall, getDaemonSocketPath, getRuntimeDirectory, startSpeechDaemon } from './daemon';
+import { SessionStorage } from './sessionStorage';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, statSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+
+describe('SpeechDaemon', () => {
+  let directory: string;
+  let runtimeDirectory: string;
+  let socketPath: string;
+  let daemons: SpeechDaemon[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-daemon-'));
+    runtimeDirectory = join(directory, 'run');
+    socketPath = getDaemonSocketPath(join(directory, 'sessions'), runtimeDirectory);
+    daemons = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    daemons.forEach(daemon => daemon.close());
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Each server answers with its own name, so tests can tell which one ran a call
+  const createDaemon = (serverName: string) => {
+    const handler = vi.fn(async (call: ToolCall) => ({
+      content: [{ type: 'text' as const, text: `${serverName} ran ${call.name}` }],
+    }));
+    const daemon = new SpeechDaemon(socketPath, handler);
+    daemons.push(daemon);
+    return { daemon, handler };
+  };
+
+  it('should make the first server the daemon and forward calls from later servers', async () => {
+    const first = createDaemon('first');
+    const second = createDaemon('second');
+
+    expect(await first.daemon.start()).toBe('daemon');
+    expect(await second.daemon.start()).toBe('proxy');
+
+    const result = await second.daemon.call({ name: 'speak', arguments: { message: 'Hello' } });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'first ran speak' }]);
+    expect(first.handler).toHaveBeenCalledWith({ name: 'speak', arguments: { message: 'Hello' } }, undefined);
+    expect(second.handler).not.toHaveBeenCalled();
+  });
+
+  it('should run forwarded calls in the scope of the server that made them', async () => {
+    const storages = new Map<string, SessionStorage>();
+    const storageFor = (scope = 'daemon') => {
+      if (!storages.has(scope)) {
+        storages.set(scope, new SessionStorage(join(directory, 'sessions'), scope));
+      }
+      return storages.get(scope)!;
+    };
+    // Names the session in the caller's scope, like set_voice
+    const daemon = new SpeechDaemon(socketPath, async (call, scope) => {
+      const sessionId = String(call.arguments?.sessionId);
+      storageFor(scope).set(sessionId, { id: sessionId, name: String(call.arguments?.name), voice: 'Alex', enabled: true });
+      return { content: [] };
+    });
+    const projectA = new SpeechDaemon(socketPath, async () => ({ content: [] }));
+    const projectB = new SpeechDaemon(socketPath, async () => ({ content: [] }));
+    daemons.push(daemon, projectA, projectB);
+    await daemon.start();
+    await projectA.start();
+    await projectB.start();
+
+    await projectA.call({ name: 'set_voice', arguments: { sessionId: 'main', name: 'FromA' } }, '/work/a');
+    await projectB.call({ name: 'set_voice', arguments: { sessionId: 'main', name: 'FromB' } }, '/work/b');
+
+    expect(new SessionStorage(join(directory, 'sessions'), '/work/a').get('main')?.name).toBe('FromA');
+    expect(new SessionStorage(join(directory, 'sessions'), '/work/b').get('main')?.name).toBe('FromB');
+    expect(new SessionStorage(join(directory, 'sessions'), 'daemon').has('main')).toBe(false);
+  });
+
+  it('should run calls itself when it is the daemon', async () => {
+    const { daemon } = createDaemon('first');
+    await daemon.start();
+
+    const result = await daemon.call({ name: 'reset_queue' });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'first ran reset_queue' }]);
+  });
+
+  it('should pass handler errors back to the proxy', async () => {
+    const first = createDaemon('first');
+    first.handler.mockRejectedValue(new Error('queue is broken'));
+    const second = createDaemon('second');
+    await first.daemon.start();
+    await second.daemon.start();
+
+    await expect(second.daemon.call({ name: 'speak' })).rejects.toThrow('queue is broken');
+  });
+
+  it('should take over once the daemon exits', async () => {
+    const first = createDaemon('first');
+    const second = createDaemon('second');
+    await first.daemon.start();
+    await second.daemon.start();
+
+    first.daemon.close();
+    await vi.waitFor(() => expect(second.daemon.role).toBeUndefined());
+    const result = await second.daemon.call({ name: 'speak' });
+
+    expect(second.daemon.role).toBe('daemon');
+    expect(result.content).toEqual([{ type: 'text', text: 'second ran speak' }]);
+  });
+
+  it.skipIf(process.platform === 'win32')('should replace a socket left behind by a daemon that crashed', async () => {
+    mkdirSync(runtimeDirectory, { mode: 0o700 });
+    writeFileSync(socketPath, '');
+    const { daemon } = createDaemon('first');
+
+    expect(await daemon.start()).toBe('daemon');
+  });
+
+  it.skipIf(process.platform === 'win32')('should keep the socket in a directory only the user can enter', async () => {
+    const { daemon } = createDaemon('first');
+    await daemon.start();
+
+    expect(dirname(socketPath)).toBe(runtimeDirectory);
+    expect(statSync(runtimeDirectory).mode & 0o777).toBe(0o700);
+    expect(statSync(socketPath).mode & 0o777).toBe(0o600);
+  });
+
+  it.skipIf(process.platform === 'win32')('should refuse a socket directory owned by another user', async () => {
+    mkdirSync(runtimeDirectory);
+    vi.spyOn(process, 'getuid').mockReturnValue(process.getuid!() + 1);
+    const { daemon } = createDaemon('first');
+
+    await expect(daemon.start()).rejects.toThrow('owned by another user');
+  });
+
+  it.skipIf(process.platform === 'win32')('should start without sharing the queue when the socket directory is refused', async () => {
+    mkdirSync(runtimeDirectory);
+    vi.spyOn(process, 'getuid').mockReturnValue(process.getuid!() + 1);
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const daemon = await startSpeechDaemon(socketPath, async () => ({ content: [] }));
+
+    expect(daemon).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('owned by another user'));
+  });
+
+  it('should use a named pipe on Windows', () => {
+    vi.spyOn(process, 'platform', 'get').mockReturnValue('win32');
+
+    expect(getDaemonSocketPath('/sessions')).toMatch(/^\\\\\.\\pipe\\talkback-[0-9a-f]{16}$/);
+  });
+
+  it('should use a per-user runtime directory', () => {
+    expect(getRuntimeDirectory({ XDG_RUNTIME_DIR: '/run/user/1000' })).toBe(join('/run/user/1000', 'talkback-mcp'));
+    expect(getRuntimeDirectory({})).toContain('talkback-mcp-');
+  });
+});
@@ -0,0 +1,330 @@
+import { createServer, createConnection, Server, Socket } from 'net';
+import { chmodSync, rmSync, mkdirSync, lstatSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { CallToolRequest, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolCall = CallToolRequest['params'];
+
+// The scope names the session scope of the server the call came from, which may differ from the daemon's
+export type ToolCallHandler = (call: ToolCall, scope?: string) => Promise<CallToolResult>;
+
+// Whether this server runs tool calls itself or forwards them to another server
+export type DaemonRole = 'daemon' | 'proxy';
+
+// Another server may start listening between our failed connection and our own listen
+const MAX_ELECTION_ATTEMPTS = 3;
+
+interface DaemonRequest {
+  id: number;
+  call: ToolCall;
+  scope?: string;
+}
+
+interface DaemonResponse {
+  id: number;
+  result?: CallToolResult;
+  error?: string;
+}
+
+/**
+ * Get the directory for daemon sockets that only the current user can reach
+ */
+export function getRuntimeDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.XDG_RUNTIME_DIR) {
+    return join(env.XDG_RUNTIME_DIR, 'talkback-mcp');
+  }
+  return join(tmpdir(), `talkback-mcp-${process.getuid?.() ?? 'user'}`);
+}
+
+/**
+ * Get the socket the daemon listens on for servers sharing a session directory
+ */
+export function getDaemonSocketPath(sessionDirectory: string, runtimeDirectory: string = getRuntimeDirectory()): string {
+  const id = createHash('sha256').update(sessionDirectory).digest('hex').slice(0, 16);
+  if (process.platform === 'win32') {
+    // Named pipes live in their own namespace rather than in a directory
+    return `\\\\.\\pipe\\talkback-${id}`;
+  }
+  return join(runtimeDirectory, `talkback-${id}.sock`);
+}
+
+/**
+ * Machine-wide speech queue for servers that each serve one stdio client.
+ * The first server listens on a socket and runs tool calls itself; later
+ * servers forward their tool calls to it, and take over once it exits.
+ */
+export class SpeechDaemon {
+  private readonly socketPath: string;
+  private readonly handler: ToolCallHandler;
+  private server: Server | null = null;
+  // Connections from proxies while this server is the daemon
+  private proxies = new Set<Socket>();
+  private socket: Socket | null = null;
+  private starting: Promise<DaemonRole> | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, { resolve: (result: CallToolResult) => void; reject: (error: Error) => void }>();
+
+  constructor(socketPath: string, handler: ToolCallHandler) {
+    this.socketPath = socketPath;
+    this.handler = handler;
+  }
+
+  /**
+   * Current role, or undefined before start() and after losing the daemon
+   */
+  get role(): DaemonRole | undefined {
+    if (this.server) {
+      return 'daemon';
+    }
+    return this.socket ? 'proxy' : undefined;
+  }
+
+  /**
+   * Connect to the running daemon, or become the daemon if none is running
+   */
+  start(): Promise<DaemonRole> {
+    this.starting ??= this.elect().finally(() => {
+      this.starting = null;
+    });
+    return this.starting;
+  }
+
+  /**
+   * Run a tool call here when this server is the daemon, or forward it to the daemon.
+   * A proxy that lost its daemon connects to the next one, or becomes the daemon itself.
+   */
+  async call(call: ToolCall, scope?: string): Promise<CallToolResult> {
+    if (!this.role) {
+      await this.start();
+    }
+    return this.server ? this.handler(call, scope) : this.forward(call, scope);
+  }
+
+  /**
+   * Stop listening or disconnect from the daemon
+   */
+  close(): void {
+    this.server?.close();
+    this.server = null;
+    this.proxies.forEach(proxy => proxy.destroy());
+    this.proxies.clear();
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private async elect(): Promise<DaemonRole> {
+    if (process.platform !== 'win32') {
+      preparePrivateDirectory(dirname(this.socketPath));
+    }
+
+    for (let attempt = 0; attempt < MAX_ELECTION_ATTEMPTS; attempt++) {
+      try {
+        checkOwner(this.socketPath);
+        this.attach(await connectTo(this.socketPath));
+        return 'proxy';
+      } catch (error) {
+        if (errorCode(error) === 'ECONNREFUSED' && process.platform !== 'win32') {
+          // Left behind by a daemon that did not exit cleanly
+          rmSync(this.socketPath, { force: true });
+        } else if (errorCode(error) !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      try {
+        this.server = await listenOn(this.socketPath, socket => this.serve(socket));
+        return 'daemon';
+      } catch (error) {
+        if (errorCode(error) !== 'EADDRINUSE') {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error(`Could not connect to or start the talkback daemon at ${this.socketPath}`);
+  }
+
+  /**
+   * Run the tool calls forwarded by a proxy
+   */
+  private serve(socket: Socket): void {
+    this.proxies.add(socket);
+    socket.on('close', () => this.proxies.delete(socket));
+    // A proxy that exits mid-call only loses its own responses
+    socket.on('error', () => {});
+    onLines(socket, async line => {
+      let request: DaemonRequest;
+      try {
+        request = JSON.parse(line) as DaemonRequest;
+      } catch {
+        return;
+      }
+
+      let response: DaemonResponse;
+      try {
+        response = { id: request.id, result: await this.handler(request.call, request.scope) };
+      } catch (error) {
+        response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+      }
+      if (!socket.destroyed) {
+        socket.write(`${JSON.stringify(response)}\n`);
+      }
+    });
+  }
+
+  /**
+   * Use a connection to the daemon for forwarded calls
+   */
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    // The connection alone should not keep a server running after its client has gone
+    socket.unref();
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      for (const { reject } of this.pending.values()) {
+        reject(new Error('Lost the connection to the talkback daemon'));
+      }
+      this.pending.clear();
+    });
+
+    onLines(socket, line => {
+      let response: DaemonResponse;
+      try {
+        response = JSON.parse(line) as DaemonResponse;
+      } catch {
+        return;
+      }
+
+      const request = this.pending.get(response.id);
+      if (request) {
+        this.pending.delete(response.id);
+        if (response.error !== undefined) {
+          request.reject(new Error(response.error));
+        } else {
+          request.resolve(response.result!);
+        }
+      }
+    });
+  }
+
+  private forward(call: ToolCall, scope?: string): Promise<CallToolResult> {
+    const socket = this.socket!;
+    return new Promise((resolve, reject) => {
+      const request: DaemonRequest = { id: this.nextRequestId++, call, scope };
+      this.pending.set(request.id, { resolve, reject });
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+  }
+}
+
+/**
+ * Start sharing the speech queue, or return undefined so the server keeps a queue
+ * of its own when the daemon cannot be reached or started, e.g. because another
+ * user owns the socket directory
+ */
+export async function startSpeechDaemon(socketPath: string, handler: ToolCallHandler): Promise<SpeechDaemon | undefined> {
+  const daemon = new SpeechDaemon(socketPath, handler);
+  try {
+    await daemon.start();
+    return daemon;
+  } catch (error) {
+    daemon.close();
+    console.error(`Could not share the speech queue through the talkback daemon, using this server's own queue: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Create the socket directory readable only by the current user, refusing one
+ * another user created first, since they would receive every forwarded call
+ */
+function preparePrivateDirectory(directory: string): void {
+  mkdirSync(directory, { recursive: true, mode: 0o700 });
+  const stats = lstatSync(directory);
+  if (!stats.isDirectory()) {
+    throw new Error(`Talkback daemon directory ${directory} is not a directory`);
+  }
+  checkOwner(directory);
+  if ((stats.mode & 0o077) !== 0) {
+    chmodSync(directory, 0o700);
+  }
+}
+
+/**
+ * Refuse a file owned by another user
+ */
+function checkOwner(path: string): void {
+  const uid = process.getuid?.();
+  if (uid === undefined) {
+    return;
+  }
+
+  let owner: number;
+  try {
+    owner = lstatSync(path).uid;
+  } catch (error) {
+    if (errorCode(error) === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  if (owner !== uid) {
+    throw new Error(`Refusing to use ${path}, which is owned by another user`);
+  }
+}
+
+function connectTo(path: string): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(path);
+    socket.once('connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+function listenOn(path: string, onConnection: (socket: Socket) => void): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = createServer(onConnection);
+    server.once('error', reject);
+    server.listen(path, () => {
+      server.off('error', reject);
+      if (process.platform !== 'win32') {
+        // Already private through its directory, which other users cannot enter
+        chmodSync(path, 0o600);
+      }
+      // Connected proxies keep the daemon running, but the socket alone does not
+      server.unref();
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Call a handler with each newline-terminated message received on a socket
+ */
+function onLines(socket: Socket, handle: (line: string) => void): void {
+  let buffered = '';
+  socket.setEncoding('utf-8');
+  socket.on('data', (data: string) => {
+    buffered += data;
+    let newline: number;
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline);
+      buffered = buffered.slice(newline + 1);
+      if (line.trim() !== '') {
+        handle(line);
+      }
+    }
+  });
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException)?.code;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EarconLibrary, renderTones, EARCONS, DEFAULT_EARCON_DIR } from './earcons';
+import { mkdtempSync, readFileSync, writeFileSync, mkdirSync, rmSync, readdirSync, symlinkSync } from 'fs';
+import { join } from 'path';
+import { tmpdir, homedir } from 'os';
+
+describe('earcons', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-earcons-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('renderTones', () => {
+    it('should render a mono 16-bit WAV file of the notes', () => {
+      const wav = renderTones([[440, 100], [0, 50]]);
+
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+      expect(wav.readUInt16LE(22)).toBe(1);
+      expect(wav.readUInt16LE(34)).toBe(16);
+      // 150ms at 22050Hz, two bytes per sample
+      expect(wav.readUInt32LE(40)).toBe(Math.round(22050 * 0.1) * 2 + Math.round(22050 * 0.05) * 2);
+      expect(wav.length).toBe(44 + wav.readUInt32LE(40));
+    });
+  });
+
+  describe('EarconLibrary', () => {
+    it('should write the bundled tone for every earcon', () => {
+      const library = new EarconLibrary(join(directory, 'bundled'));
+
+      for (const earcon of EARCONS) {
+        const file = library.fileFor(earcon);
+        expect(file).toBe(join(directory, 'bundled', `${earcon}.wav`));
+        expect(readFileSync(file).toString('ascii', 0, 4)).toBe('RIFF');
+      }
+    });
+
+    it('should write bundled tones under the home directory by default', () => {
+      expect(DEFAULT_EARCON_DIR.startsWith(homedir())).toBe(true);
+    });
+
+    it('should not write through a link left at the temporary file', () => {
+      const bundled = join(directory, 'bundled');
+      const target = join(directory, 'target');
+      mkdirSync(bundled);
+      writeFileSync(target, 'untouched');
+      symlinkSync(target, join(bundled, `success.wav.${process.pid}.tmp`));
+
+      new EarconLibrary(bundled).fileFor('success');
+
+      expect(readFileSync(target, 'utf-8')).toBe('untouched');
+      expect(readdirSync(bundled)).toEqual(['success.wav']);
+    });
+
+    it('should prefer sound files from the custom directory', () => {
+      const customDirectory = join(directory, 'custom');
+      mkdirSync(customDirectory);
+      writeFileSync(join(customDirectory, 'failure.aiff'), 'custom');
+      const library = new EarconLibrary(join(directory, 'bundled'), customDirectory);
+
+      expect(library.fileFor('failure')).toBe(join(customDirectory, 'failure.aiff'));
+      expect(library.fileFor('success')).toBe(join(directory, 'bundled', 'success.wav'));
+    });
+  });
+});
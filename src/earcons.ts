@@ -0,0 +1,96 @@
+import { writeFileSync, mkdirSync, existsSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+
+export const EARCONS = ['success', 'failure', 'question', 'attention'] as const;
+
+export type Earcon = typeof EARCONS[number];
+
+// Directory the bundled earcons are written to on first use, private to the user
+export const DEFAULT_EARCON_DIR = join(homedir(), '.cache', 'talkback-mcp', 'earcons');
+
+// Notes of each bundled earcon as frequency in Hz (0 for silence) and duration in milliseconds
+const EARCON_NOTES: Record<Earcon, Array<[number, number]>> = {
+  success: [[660, 90], [880, 160]],
+  failure: [[220, 200], [165, 320]],
+  question: [[587, 110], [0, 40], [784, 180]],
+  attention: [[988, 80], [0, 70], [988, 80], [0, 70], [988, 80]],
+};
+
+const SAMPLE_RATE = 22050;
+
+/**
+ * Sound files for earcons. Files named after an earcon, such as success.wav,
+ * in the custom directory replace the bundled tones.
+ */
+export class EarconLibrary {
+  private readonly directory: string;
+  private readonly customDirectory?: string;
+
+  constructor(directory: string = DEFAULT_EARCON_DIR, customDirectory?: string) {
+    this.directory = directory;
+    this.customDirectory = customDirectory;
+  }
+
+  /**
+   * Get the file to play for an earcon, writing the bundled tone if needed
+   */
+  fileFor(earcon: Earcon): string {
+    if (this.customDirectory) {
+      for (const extension of ['wav', 'aiff']) {
+        const file = join(this.customDirectory, `${earcon}.${extension}`);
+        if (existsSync(file)) {
+          return file;
+        }
+      }
+    }
+
+    const file = join(this.directory, `${earcon}.wav`);
+    if (!existsSync(file)) {
+      mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+      // A new temporary file, so a link planted at its path is never written through
+      const tempFile = `${file}.${process.pid}.tmp`;
+      rmSync(tempFile, { force: true });
+      writeFileSync(tempFile, renderTones(EARCON_NOTES[earcon]), { flag: 'wx', mode: 0o600 });
+      renameSync(tempFile, file);
+    }
+    return file;
+  }
+}
+
+/**
+ * Render a sequence of sine tones as a 16-bit mono WAV file
+ */
+export function renderTones(notes: Array<[number, number]>): Buffer {
+  const samples: number[] = [];
+
+  for (const [frequency, durationMs] of notes) {
+    const count = Math.round(SAMPLE_RATE * durationMs / 1000);
+    // Fade each note in and out over 5ms so it does not click
+    const fade = Math.min(count / 2, SAMPLE_RATE * 0.005);
+    for (let i = 0; i < count; i++) {
+      const envelope = Math.min(1, i / fade, (count - i) / fade);
+      samples.push(frequency > 0 ? Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.5 : 0);
+    }
+  }
+
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => data.writeInt16LE(Math.round(sample * 32767), i * 2));
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer, MCP_PATH } from './httpServer';
+
+describe('startHttpServer', () => {
+  let httpServer: HttpServer;
+  let url: URL;
+  let clients: Client[];
+  // State shared by every MCP server, like the message queue
+  let spoken: string[];
+
+  const createMcpServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'speak', inputSchema: { type: 'object', properties: {} } }],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      spoken.push(String(request.params.arguments?.message));
+      return { content: [{ type: 'text', text: String(spoken.length) }] };
+    });
+    return server;
+  };
+
+  const connect = async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(url));
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    spoken = [];
+    clients = [];
+    httpServer = await startHttpServer(createMcpServer, { port: 0, host: '127.0.0.1' });
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}${MCP_PATH}`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should serve several clients that share state', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    expect((await first.listTools()).tools.map(tool => tool.name)).toEqual(['speak']);
+    await first.callTool({ name: 'speak', arguments: { message: 'from first' } });
+    const result = await second.callTool({ name: 'speak', arguments: { message: 'from second' } });
+
+    expect(spoken).toEqual(['from first', 'from second']);
+    expect(result.content).toEqual([{ type: 'text', text: '2' }]);
+  });
+
+  it('should reject requests without a session that do not initialize one', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('No valid session ID');
+  });
+
+  it('should reject unknown sessions and paths', async () => {
+    const unknownSession = await fetch(url, { headers: { 'mcp-session-id': 'missing' } });
+    const unknownPath = await fetch(new URL('/other', url));
+
+    expect(unknownSession.status).toBe(404);
+    expect(unknownPath.status).toBe(404);
+  });
+
+  it('should reject host headers of other sites when bound to localhost', async () => {
+    // fetch does not let the Host header be changed
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', 'Host': 'evil.example' },
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      }));
+    });
+
+    expect(status).toBe(403);
+  });
+});
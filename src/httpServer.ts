@@ -0,0 +1,145 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Path clients connect to, e.g. http://127.0.0.1:3000/mcp
+export const MCP_PATH = '/mcp';
+
+// Largest request body accepted, well above any speak call
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+}
+
+/**
+ * Error for a request that is rejected before it reaches a transport
+ */
+class HttpError extends Error {
+  // JSON-RPC error code sent with the HTTP status
+  constructor(readonly status: number, message: string, readonly code = -32000) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Serve MCP over Streamable HTTP. Each client session gets its own MCP server
+ * and transport, so state shared by the servers is shared by all clients.
+ * Resolves with the HTTP server once it is listening.
+ */
+export function startHttpServer(createMcpServer: () => Server, { port, host }: HttpServerOptions): Promise<HttpServer> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // Host headers accepted once listening, when bound to a loopback address
+  let allowedHosts: string[] | undefined;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== MCP_PATH) {
+      throw new HttpError(404, `Not found, MCP is served at ${MCP_PATH}`);
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const transport = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+    if (sessionId !== undefined && !transport) {
+      throw new HttpError(404, 'Session not found');
+    }
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (transport) {
+        return transport.handleRequest(req, res, body);
+      }
+      if (!isInitializeRequest(body)) {
+        throw new HttpError(400, 'Bad Request: No valid session ID provided');
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          transports.set(id, newTransport);
+        },
+        // Keeps web pages from reaching a local server through DNS rebinding
+        allowedHosts,
+        enableDnsRebindingProtection: allowedHosts !== undefined,
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          transports.delete(newTransport.sessionId);
+        }
+      };
+      await createMcpServer().connect(newTransport);
+      return newTransport.handleRequest(req, res, body);
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!transport) {
+        throw new HttpError(400, 'Bad Request: No valid session ID provided');
+      }
+      return transport.handleRequest(req, res);
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (!(error instanceof HttpError)) {
+        console.error('Error handling HTTP request:', error);
+      }
+      if (!res.headersSent) {
+        sendError(res, error instanceof HttpError ? error : new HttpError(500, 'Internal server error', -32603));
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      const address = httpServer.address();
+      const listeningPort = typeof address === 'object' && address ? address.port : port;
+      if (LOOPBACK_HOSTS.includes(host)) {
+        allowedHosts = LOOPBACK_HOSTS.map(name => `${name.includes(':') ? `[${name}]` : name}:${listeningPort}`);
+      }
+      resolve(httpServer);
+    });
+  });
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body must be JSON', -32700);
+  }
+}
+
+/**
+ * Send a JSON-RPC error response for a rejected request
+ */
+function sendError(res: ServerResponse, error: HttpError): void {
+  res.writeHead(error.status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: error.code, message: error.message },
+    id: null,
+  }));
+}
@@ -4,103 +4,448 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { MessageQueue } from './messageQueue.js';
-import { SessionStorage, Session } from './sessionStorage.js';
+import { MessageQueue, QueuedMessage, MessagePriority, MESSAGE_PRIORITIES, isFinalState } from './messageQueue.js';
+import { SessionStorage, Session, GLOBAL_SCOPE } from './sessionStorage.js';
+import { createSpeechEngine, detectSpeechEngine, SpeechEngine, VoiceInfo, MessageFormat, MESSAGE_FORMATS } from './speechEngine.js';
+import { parseSsml, toPlainText, SsmlError } from './ssml.js';
+import { VoicePool } from './voicePool.js';
+import { Lexicon } from './lexicon.js';
+import { AudioArchive } from './audioArchive.js';
+import { AudioCache } from './audioCache.js';
+import { EarconLibrary, Earcon, EARCONS, DEFAULT_EARCON_DIR } from './earcons.js';
+import { normalizeText } from './textNormalizer.js';
+import { loadConfig, ConfigError, TalkbackConfig } from './config.js';
+import { fillPlaceholders, PromptValues } from './prompts.js';
+import { startHttpServer, MCP_PATH } from './httpServer.js';
+import { hashIndex, pickFree } from './assignment.js';
+import { SpeechDaemon, ToolCall, getDaemonSocketPath, startSpeechDaemon } from './daemon.js';
 
-// Parse command-line arguments for debug mode
-const args = process.argv.slice(2);
-const debugMode = args.includes('--debug');
+/**
+ * Load the layered configuration, exiting with an error if any layer is invalid
+ */
+function getConfig(): TalkbackConfig {
+  try {
+    return loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
 
-// Initialize the message queue with a 500 character limit
-const messageQueue = new MessageQueue(500);
+// Defaults, config files, environment variables and command-line flags, each overriding the ones before
+const config = getConfig();
+const debugMode = config.debug;
 
-// Random names for LLM introduction
-const RANDOM_NAMES = [
-  'Alex', 'Morgan', 'Jordan', 'Taylor', 'Casey',
-  'Riley', 'Quinn', 'Avery', 'Parker', 'Charlie',
-  'Sam', 'Jamie', 'Sage', 'Robin', 'Dakota'
-];
+// Speech engine to use; "auto" probes for an installed engine
+const engineName = config.engine;
 
-// Available voices for different sessions
-const AVAILABLE_VOICES = [
-  'Alex', 'Daniel', 'Fred', 'Karen', 'Moira',
-  'Samantha', 'Victoria', 'Fiona', 'Tessa', 'Veena'
-];
+// Locale used to filter discovered voices
+const voiceLocale = config.locale;
+
+// Messages over this many characters are truncated, or split into sentences when chunking
+const maxMessageLength = config.limits.maxMessageLength;
+
+// Identical messages from a session within this many seconds are only spoken once (0 disables)
+const dedupeWindowSeconds = config.limits.dedupeWindowSeconds;
+
+// Messages not spoken within this many seconds are dropped, unless the speak call sets its own TTL (0 disables)
+const defaultTtlSeconds = config.limits.ttlSeconds;
+
+// Messages over the character limit are split into sentences instead of truncated
+const chunkLongMessages = config.chunk;
+
+// Overall character cap of a split message; the rest is dropped with a spoken cue
+const maxChunkedLength = config.limits.maxChunkedLength;
+
+// Rules that make Markdown, paths, URLs and identifiers speakable before messages are queued
+const normalizationRules = config.normalize;
+
+// Pronunciation fixes, reloaded whenever the file changes
+const lexicon = new Lexicon(config.storage.lexicon);
+
+// Messages are played, rendered to files in the audio directory, or both
+const outputMode = config.output;
+const outputDir = config.storage.audio;
+
+// Repeated messages are played from rendered audio, evicting the least recently used over the size limit
+const cacheEnabled = config.cache.enabled;
+const cacheDir = config.storage.cache;
+const cacheSizeMegabytes = config.cache.sizeMegabytes;
+
+// Bundled earcons, replaced by same-named sound files in the custom earcon directory
+const earcons = new EarconLibrary(DEFAULT_EARCON_DIR, config.storage.earcons);
+
+// Sessions unused for this long are deleted, and at most this many are kept (0 disables either)
+const sessionIdleMs = config.limits.sessionIdleSeconds * 1000;
+const maxSessions = config.limits.maxSessions;
+
+// Sessions that do not choose for themselves are announced by name when the speaker changes
+const announceByDefault = config.announce;
+
+// Index of rendered files, created in main() when messages are rendered to files
+let audioArchive: AudioArchive | undefined;
+
+// The speech engine and message queue are created in main() once the engine is discovered
+let speechEngine: SpeechEngine;
+let messageQueue: MessageQueue;
+
+// Machine-wide queue shared by stdio servers, created in main() unless disabled
+let speechDaemon: SpeechDaemon | undefined;
 
-// Session storage to persist sessions per process
-const sessionStorage = new SessionStorage();
-let voiceIndex = 0;
+// Accepted ranges for session speech settings
+const MIN_RATE = 80;
+const MAX_RATE = 500;
+const MIN_PITCH = 0;
+const MAX_PITCH = 100;
+const MIN_VOLUME = 0;
+const MAX_VOLUME = 100;
+
+// Labels are spoken before messages, so keep them short
+const MAX_LABEL_LENGTH = 60;
+
+interface SpeechSettings {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+}
+
+// Sessions are shared by all projects, or kept apart per working directory of the server
+const sessionScope = config.storage.sessionScope === 'project' ? process.cwd() : GLOBAL_SCOPE;
+
+// Sessions persisted across restarts, by scope. The daemon serves calls from
+// servers in other working directories, so it can hold several scopes.
+const sessionStorages = new Map<string, SessionStorage>();
 
 /**
- * Get a random name for the LLM to introduce itself
+ * Get the session storage of a scope, opening it on first use
  */
-function getRandomName(): string {
-  return RANDOM_NAMES[Math.floor(Math.random() * RANDOM_NAMES.length)];
+function getSessionStorage(scope: string): SessionStorage {
+  let storage = sessionStorages.get(scope);
+  if (!storage) {
+    storage = new SessionStorage(config.storage.sessions, scope);
+    sessionStorages.set(scope, storage);
+  }
+  return storage;
 }
 
+// Voices verified against the active engine at startup
+const voicePool = new VoicePool(config.voices);
+
+// New sessions get the next voice and a random name, or ones derived from the session ID
+const assignmentMode = config.assignment;
+
 /**
- * Get the next available voice in rotation
+ * Get the voices and names held by enabled sessions other than the given one, in every scope
  */
-function getNextVoice(): string {
-  const voice = AVAILABLE_VOICES[voiceIndex % AVAILABLE_VOICES.length];
-  voiceIndex++;
-  return voice;
+function getHeldAssignments(storage: SessionStorage, sessionId: string): { voices: Set<string>; names: Set<string> } {
+  const others = storage.getAllScopes().filter(session => session.enabled && session.id !== sessionId);
+  return {
+    voices: new Set(others.map(session => session.voice)),
+    names: new Set(others.map(session => session.name)),
+  };
 }
 
 /**
- * Get or create a session
+ * Get a name for the LLM to introduce itself, preferring names no enabled session holds
  */
-function getOrCreateSession(sessionId: string): Session {
-  if (!sessionStorage.has(sessionId)) {
-    const session: Session = {
-      id: sessionId,
-      name: getRandomName(),
-      voice: getNextVoice(),
-      enabled: false,
-    };
-    sessionStorage.set(sessionId, session);
+function getNewName(sessionId: string, held: ReadonlySet<string>): string {
+  const names = config.names;
+  const start = assignmentMode === 'hash'
+    ? hashIndex(`name:${sessionId}`, names.length)
+    : Math.floor(Math.random() * names.length);
+  return pickFree(names, start, held);
+}
+
+/**
+ * Get the next available voice, preferring voices no enabled session holds
+ */
+function getNewVoice(sessionId: string, held: ReadonlySet<string>): string {
+  return voicePool.next({ held, key: assignmentMode === 'hash' ? sessionId : undefined });
+}
+
+/**
+ * Assign a voice and name to a new session, reporting when every voice or name is already held
+ */
+function createSession(storage: SessionStorage, sessionId: string, now: number): Session {
+  const held = getHeldAssignments(storage, sessionId);
+  const session: Session = {
+    id: sessionId,
+    name: getNewName(sessionId, held.names),
+    voice: getNewVoice(sessionId, held.voices),
+    enabled: false,
+    lastActiveAt: now,
+  };
+
+  if (held.voices.has(session.voice)) {
+    console.error(`All ${voicePool.list().length} voices are held by enabled sessions, so session ${sessionId} shares the voice ${session.voice}`);
   }
-  return sessionStorage.get(sessionId)!;
+  if (held.names.has(session.name)) {
+    console.error(`All ${config.names.length} names are held by enabled sessions, so session ${sessionId} shares the name ${session.name}`);
+  }
+  return session;
 }
 
 /**
- * Generate a brief introduction for the LLM to speak when enabling
+ * Describe the voice and name a session shares with other enabled sessions, if any
  */
-function getIntroduction(session: Session): string {
-  return `Hello! I'm ${session.name}, your voice assistant through the Talkback MCP server.`;
+function getSharingWarnings(storage: SessionStorage, session: Session): string[] | undefined {
+  const held = getHeldAssignments(storage, session.id);
+  const warnings: string[] = [];
+  if (held.voices.has(session.voice)) {
+    warnings.push(`Another enabled session also speaks with the voice ${session.voice}. Disable or delete unused sessions, or use set_voice to pick another voice.`);
+  }
+  if (held.names.has(session.name)) {
+    warnings.push(`Another enabled session is also named ${session.name}. Use set_voice to pick another name.`);
+  }
+  return warnings.length > 0 ? warnings : undefined;
 }
 
+// Activity is saved at most this often, rather than on every tool call
+const ACTIVITY_SAVE_INTERVAL_MS = 60 * 1000;
+
 /**
- * Generate initialization instructions for the LLM
+ * Get or create a session, recording that it is active
  */
-function getInitInstructions(session: Session): string {
-  return `The speech feature is now ENABLED. You MUST start speaking NOW for every upcoming instruction and action.
+function getOrCreateSession(storage: SessionStorage, sessionId: string): Session {
+  if (!storage.has(sessionId)) {
+    // Free the voices of expired sessions before assigning one
+    expireSessions(storage);
+  }
 
-Here are your behavioral guidelines:
+  const now = Date.now();
+  const session = storage.getOrCreate(sessionId, () => createSession(storage, sessionId, now));
+
+  if (session.lastActiveAt === undefined || now - session.lastActiveAt >= ACTIVITY_SAVE_INTERVAL_MS) {
+    session.lastActiveAt = now;
+    storage.set(sessionId, session);
+  }
+  return session;
+}
 
-1. **Speak about everything**: Use the 'speak' tool to verbally communicate all actions you're taking, so the user can stay informed without reading the screen.
+/**
+ * Delete idle sessions and those over the cap, returning their voices to the rotation
+ */
+function expireSessions(storage: SessionStorage): void {
+  for (const session of storage.expire({ idleMs: sessionIdleMs, maxSessions })) {
+    voicePool.release(session.voice);
+  }
+}
 
-2. **Always speak when prompting**: Whenever you ask a question or wait for a response, always speak it aloud. The user might be busy with other tasks and needs to hear the prompts rather than read them.
+/**
+ * Describe a session for the session tools, with the settings it falls back to
+ */
+function describeSession(session: Session) {
+  return {
+    sessionId: session.id,
+    name: session.name,
+    voice: session.voice,
+    enabled: session.enabled,
+    label: session.label,
+    announce: session.announce ?? announceByDefault,
+    profile: getProfile(session),
+    rate: session.rate,
+    pitch: session.pitch,
+    volume: session.volume,
+    lastActiveAt: session.lastActiveAt,
+    expiresAt: sessionIdleMs > 0 && session.lastActiveAt !== undefined ? session.lastActiveAt + sessionIdleMs : undefined,
+  };
+}
 
-3. **Stay concise**: Keep spoken messages brief and to the point. Leave detailed information and technical output in the terminal for later review.
+/**
+ * Validate optional rate, pitch and volume arguments
+ */
+function validateSpeechSettings({ rate, pitch, volume }: SpeechSettings): void {
+  if (rate !== undefined && (typeof rate !== 'number' || rate < MIN_RATE || rate > MAX_RATE)) {
+    throw new Error(`Rate must be a number between ${MIN_RATE} and ${MAX_RATE} words per minute`);
+  }
 
-4. **Regular updates**: Keep the user informed of progress and next steps through speech, making it easier to multitask.
+  if (pitch !== undefined && (typeof pitch !== 'number' || pitch < MIN_PITCH || pitch > MAX_PITCH)) {
+    throw new Error(`Pitch must be a number between ${MIN_PITCH} and ${MAX_PITCH}`);
+  }
 
-5. **Multi-session support**: You're using the voice "${session.voice}" so the user can distinguish you from other sessions. All sessions share the same queue to avoid overlapping speech.
+  if (volume !== undefined && (typeof volume !== 'number' || volume < MIN_VOLUME || volume > MAX_VOLUME)) {
+    throw new Error(`Volume must be a number between ${MIN_VOLUME} and ${MAX_VOLUME}`);
+  }
+}
 
-IMPORTANT: Now that speech is enabled, you MUST provide short spoken summaries for every instruction and action you perform. Do not wait for reminders - speak proactively for all your work.`;
+/**
+ * Combine a session's speech defaults with per-message overrides
+ */
+function getSpeechSettings(session: Session, overrides: SpeechSettings = {}): SpeechSettings {
+  return {
+    rate: overrides.rate ?? session.rate,
+    pitch: overrides.pitch ?? session.pitch,
+    volume: overrides.volume ?? session.volume,
+  };
+}
+
+/**
+ * Get the name and label spoken before a session's messages, or undefined if the session is not announced
+ */
+function getAnnouncement(session: Session): string | undefined {
+  if (!(session.announce ?? announceByDefault)) {
+    return undefined;
+  }
+  return session.label ? `${session.name}, ${session.label}` : session.name;
+}
+
+interface SpeakArguments extends SpeechSettings {
+  message: string;
+  sessionId: string;
+  priority?: MessagePriority;
+  interrupt?: boolean;
+  topic?: string;
+  ttlSeconds?: number;
+  format?: MessageFormat;
+  earcon?: Earcon;
+}
+
+/**
+ * Check that an earcon is one of the available sounds
+ */
+function validateEarcon(earcon: unknown): void {
+  if (earcon !== undefined && !(EARCONS as readonly unknown[]).includes(earcon)) {
+    throw new Error(`Earcon must be one of: ${EARCONS.join(', ')}`);
+  }
+}
+
+/**
+ * Check that an SSML message is valid and its spoken text fits the character limit.
+ * SSML is not normalized or truncated, since either could break the markup.
+ */
+function validateSsml(message: string): string {
+  try {
+    const spoken = toPlainText(parseSsml(message));
+    if (spoken.length > maxMessageLength) {
+      throw new Error(`SSML messages are limited to ${maxMessageLength} characters of spoken text, got ${spoken.length}`);
+    }
+    return message;
+  } catch (error) {
+    if (error instanceof SsmlError) {
+      throw new Error(`Invalid SSML: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate speak arguments and queue the message with the session's voice
+ */
+function queueSpeech(storage: SessionStorage, args: SpeakArguments): { session: Session; queuedMessage: QueuedMessage } {
+  const { message, sessionId, rate, pitch, volume, priority, interrupt, topic, ttlSeconds, format, earcon } = args;
+
+  if (!message || typeof message !== 'string') {
+    throw new Error('Message must be a non-empty string');
+  }
+
+  if (!sessionId || typeof sessionId !== 'string') {
+    throw new Error('Session ID must be a non-empty string');
+  }
+
+  validateSpeechSettings({ rate, pitch, volume });
+
+  if (priority !== undefined && !MESSAGE_PRIORITIES.includes(priority)) {
+    throw new Error(`Priority must be one of: ${MESSAGE_PRIORITIES.join(', ')}`);
+  }
+
+  if (interrupt !== undefined && typeof interrupt !== 'boolean') {
+    throw new Error('Interrupt must be a boolean');
+  }
+
+  if (topic !== undefined && (typeof topic !== 'string' || !topic)) {
+    throw new Error('Topic must be a non-empty string');
+  }
+
+  if (ttlSeconds !== undefined && (typeof ttlSeconds !== 'number' || ttlSeconds <= 0)) {
+    throw new Error('TTL must be a positive number of seconds');
+  }
+
+  validateEarcon(earcon);
+
+  if (format !== undefined && !MESSAGE_FORMATS.includes(format)) {
+    throw new Error(`Format must be one of: ${MESSAGE_FORMATS.join(', ')}`);
+  }
+
+  const text = format === 'ssml' ? validateSsml(message) : normalizeText(message, normalizationRules);
+  if (!text) {
+    throw new Error('Message has nothing to speak once code blocks, Markdown and emoji are removed');
+  }
+
+  const session = getOrCreateSession(storage, sessionId);
+
+  if (!session.enabled) {
+    throw new Error('Speech is not enabled for this session. Call the "enable" tool first.');
+  }
+
+  const queuedMessage = messageQueue.enqueue(
+    text,
+    voicePool.resolve(session.voice),
+    {
+      ...getSpeechSettings(session, { rate, pitch, volume }),
+      priority,
+      interrupt,
+      sessionId,
+      topic,
+      ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+      format,
+      sound: earcon !== undefined ? { name: earcon, file: earcons.fileFor(earcon) } : undefined,
+      announcement: getAnnouncement(session),
+    }
+  );
+
+  return { session, queuedMessage };
+}
+
+/**
+ * Generate a brief introduction for the LLM to speak when enabling
+ */
+function getIntroduction(session: Session): string {
+  return fillPlaceholders(config.prompts.introduction, getPromptValues(session));
+}
+
+/**
+ * Generate initialization instructions for the LLM
+ */
+function getInitInstructions(session: Session): string {
+  return fillPlaceholders(config.prompts.instructions, getPromptValues(session));
+}
+
+/**
+ * Get the profile a session speaks by, falling back to the default if it is no longer configured
+ */
+function getProfile(session: Session): string {
+  return session.profile !== undefined && Object.prototype.hasOwnProperty.call(config.profiles, session.profile)
+    ? session.profile
+    : config.profile;
+}
+
+/**
+ * Get the values of the placeholders in a session's prompts
+ */
+function getPromptValues(session: Session): PromptValues {
+  return {
+    name: session.name,
+    voice: session.voice,
+    sessionId: session.id,
+    verbosity: config.profiles[getProfile(session)],
+  };
 }
 
 /**
  * Format response based on debug mode
  * In debug mode: return full details
  * In normal mode: return simple emoji acknowledgement
+ * Tools that exist to return information pass detailed = true to always return full details
  */
-function formatResponse(data: { success: boolean; [key: string]: any }): string {
-  if (debugMode) {
+function formatResponse(data: { success: boolean; [key: string]: any }, detailed = debugMode): string {
+  if (detailed) {
     return JSON.stringify(data, null, 2);
   }
   
@@ -112,11 +457,87 @@ function formatResponse(data: { success: boolean; [key: string]: any }): string
   }
 }
 
+// Schema properties shared by tools that accept speech settings
+const SPEECH_SETTING_PROPERTIES = {
+  rate: {
+    type: 'number',
+    description: `Speaking rate in words per minute (${MIN_RATE}-${MAX_RATE})`,
+  },
+  pitch: {
+    type: 'number',
+    description: `Pitch from ${MIN_PITCH} to ${MAX_PITCH}, where 50 is the voice's normal pitch. Not supported by every engine.`,
+  },
+  volume: {
+    type: 'number',
+    description: `Volume from ${MIN_VOLUME} to ${MAX_VOLUME}, where 100 is the engine's normal volume. Not supported by every engine.`,
+  },
+};
+
+// How long speak_and_wait waits for a message by default, and at most
+const DEFAULT_WAIT_SECONDS = 120;
+const MAX_WAIT_SECONDS = 600;
+
+// Schema properties shared by the speak and speak_and_wait tools
+// How the speak tools treat messages over the character limit
+const LONG_MESSAGE_DESCRIPTION = chunkLongMessages
+  ? `Messages longer than ${maxMessageLength} characters are split into sentences and spoken as one message of up to ${maxChunkedLength} characters.`
+  : `Messages longer than ${maxMessageLength} characters will be automatically truncated.`;
+
+const SPEAK_PROPERTIES = {
+  message: {
+    type: 'string',
+    description: 'The message to speak aloud',
+  },
+  sessionId: {
+    type: 'string',
+    description: 'Session identifier to use the assigned voice for this session',
+  },
+  rate: {
+    ...SPEECH_SETTING_PROPERTIES.rate,
+    description: `${SPEECH_SETTING_PROPERTIES.rate.description}. Overrides the session rate for this message only.`,
+  },
+  pitch: {
+    ...SPEECH_SETTING_PROPERTIES.pitch,
+    description: `${SPEECH_SETTING_PROPERTIES.pitch.description} Overrides the session pitch for this message only.`,
+  },
+  volume: {
+    ...SPEECH_SETTING_PROPERTIES.volume,
+    description: `${SPEECH_SETTING_PROPERTIES.volume.description} Overrides the session volume for this message only.`,
+  },
+  priority: {
+    type: 'string',
+    enum: [...MESSAGE_PRIORITIES],
+    description: 'How soon the message should be spoken. Higher priority messages are spoken before queued lower priority ones. Use "urgent" for questions that need the user\'s input. Defaults to "normal".',
+  },
+  interrupt: {
+    type: 'boolean',
+    description: 'Stop the message currently being spoken if it has a lower priority. Intended for urgent messages; the interrupted message is dropped.',
+  },
+  topic: {
+    type: 'string',
+    description: 'Short key for progress updates, e.g. "tests". A new message with the same topic replaces this session\'s queued, not yet spoken messages with that topic, so outdated updates are skipped.',
+  },
+  ttlSeconds: {
+    type: 'number',
+    description: 'Drop the message if it has not started playing within this many seconds, for statements that will soon be out of date',
+  },
+  format: {
+    type: 'string',
+    enum: [...MESSAGE_FORMATS],
+    description: 'Use "ssml" to mark up the message with <break time="500ms"/>, <emphasis>, <say-as interpret-as="characters"> (also spell-out, digits, cardinal) and <prosody rate pitch volume>. Defaults to "text".',
+  },
+  earcon: {
+    type: 'string',
+    enum: [...EARCONS],
+    description: 'Short sound played just before the message: "success" chime, "failure" buzz, "question" or "attention"',
+  },
+};
+
 // Define the available tools
 const TOOLS: Tool[] = [
   {
     name: 'enable',
-    description: 'Enable the speech feature for this session. The LLM will receive behavioral instructions and will introduce itself. Once enabled, the LLM should speak brief summaries for every action and instruction. Each session gets a unique voice to distinguish between multiple concurrent sessions.',
+    description: 'Enable the speech feature for this session. The LLM will receive behavioral instructions and will introduce itself. Once enabled, the LLM should speak according to the session\'s verbosity profile, by default brief summaries for every action and instruction. Each session gets a unique voice to distinguish between multiple concurrent sessions.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -124,6 +545,19 @@ const TOOLS: Tool[] = [
           type: 'string',
           description: 'Unique identifier for this session. Use a consistent ID across calls to maintain the same voice.',
         },
+        label: {
+          type: 'string',
+          description: 'Label spoken after the session name when announcing it, such as the project name ("Alex, backend repo: ...")',
+        },
+        announce: {
+          type: 'boolean',
+          description: 'Prefix messages with the session name and label whenever the previous message came from another session. Defaults to the server setting.',
+        },
+        profile: {
+          type: 'string',
+          enum: Object.keys(config.profiles),
+          description: `When the session should speak, such as "chatty" for every action, "questions-only" or "errors-only". Defaults to "${config.profile}".`,
+        },
       },
       required: ['sessionId'],
     },
@@ -144,20 +578,156 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'speak',
-    description: 'Add a message to the speech queue to be spoken aloud using the macOS say command. Messages are queued and spoken sequentially across all sessions. Messages longer than 500 characters will be automatically truncated. The message will be spoken using the voice assigned to the session.',
+    description: `Add a message to the speech queue to be spoken aloud using the configured speech engine. Messages are queued and spoken sequentially across all sessions. ${LONG_MESSAGE_DESCRIPTION} The message will be spoken using the voice assigned to the session.`,
+    inputSchema: {
+      type: 'object',
+      properties: SPEAK_PROPERTIES,
+      required: ['message', 'sessionId'],
+    },
+  },
+  {
+    name: 'speak_and_wait',
+    description: 'Speak a message like the speak tool, but only return once it has been spoken, cancelled, failed or expired, or the timeout has passed. Use this for questions, so you know the user has heard them before waiting for an answer.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...SPEAK_PROPERTIES,
+        timeoutSeconds: {
+          type: 'number',
+          description: `Stop waiting after this many seconds (default ${DEFAULT_WAIT_SECONDS}, maximum ${MAX_WAIT_SECONDS}). The message stays queued.`,
+        },
+      },
+      required: ['message', 'sessionId'],
+    },
+  },
+  {
+    name: 'play_sound',
+    description: 'Play a short non-speech sound (earcon) through the speech queue, e.g. a chime when tests pass or a buzz when the build fails. Faster to recognize than a sentence, and never overlaps speech.',
     inputSchema: {
       type: 'object',
       properties: {
-        message: {
+        sound: {
           type: 'string',
-          description: 'The message to speak aloud',
+          enum: [...EARCONS],
+          description: 'The earcon to play',
         },
         sessionId: {
           type: 'string',
-          description: 'Session identifier to use the assigned voice for this session',
+          description: 'Session identifier; speech must be enabled for the session',
         },
+        priority: SPEAK_PROPERTIES.priority,
+        interrupt: SPEAK_PROPERTIES.interrupt,
       },
-      required: ['message', 'sessionId'],
+      required: ['sound', 'sessionId'],
+    },
+  },
+  {
+    name: 'list_voices',
+    description: 'List the voices installed for the active speech engine, with their locale and gender where known. Use this to pick a voice for set_voice.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        locale: {
+          type: 'string',
+          description: 'Only list voices for this locale, e.g. "en" or "en_GB"',
+        },
+      },
+    },
+  },
+  {
+    name: 'set_voice',
+    description: 'Change the voice, name, speaking rate, pitch or volume used by a session. Only the provided fields are changed, and the choice is kept for later calls.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session identifier whose voice settings should change',
+        },
+        voice: {
+          type: 'string',
+          description: 'Name of an installed voice, as returned by list_voices',
+        },
+        name: {
+          type: 'string',
+          description: 'Name the session uses to introduce itself',
+        },
+        ...SPEECH_SETTING_PROPERTIES,
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'list_sessions',
+    description: 'List the stored sessions with their name, voice, whether speech is enabled and when they were last active. Sessions unused for a while are deleted automatically.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        enabled: {
+          type: 'boolean',
+          description: 'Only list sessions whose speech is enabled (true) or disabled (false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_session',
+    description: 'Get the settings of a session: name, voice, label, profile, speech settings, last activity and when it expires. Use set_voice to rename a session or change its voice.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session identifier to inspect',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'delete_session',
+    description: 'Delete a session, returning its voice to the rotation. Using the session ID again creates a new session with a new name and voice.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session identifier to delete',
+        },
+      },
+      required: ['sessionId'],
+    },
+  },
+  {
+    name: 'add_pronunciation',
+    description: 'Fix how a word or name is pronounced by adding it to the pronunciation lexicon. Use this when the user says a word is mispronounced. The fix applies to every session, including messages already queued, and is kept across restarts.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        word: {
+          type: 'string',
+          description: 'Word or phrase as it is written, matched as a whole word regardless of case',
+        },
+        replacement: {
+          type: 'string',
+          description: 'Spelling the speech engine pronounces correctly, e.g. "shiv awn" for "Siobhan"',
+        },
+      },
+      required: ['word', 'replacement'],
+    },
+  },
+  {
+    name: 'remove_pronunciation',
+    description: 'Remove a word from the pronunciation lexicon so it is spoken as written again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        word: {
+          type: 'string',
+          description: 'Word or phrase to remove',
+        },
+      },
+      required: ['word'],
     },
   },
   {
@@ -174,6 +744,34 @@ const TOOLS: Tool[] = [
       required: ['messageId'],
     },
   },
+  {
+    name: 'get_message_status',
+    description: 'Get the lifecycle state of a message by its ID: queued, speaking, spoken, failed (with the error), cancelled (with the reason) or expired, with timestamps. Use this to check whether the user actually heard a question.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message, as returned by speak',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
+  {
+    name: 'get_message_audio',
+    description: 'Get the path of the audio file a message was rendered to, for reviewing what was said. Only available when the server renders messages to files.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'The ID of the message, as returned by speak',
+        },
+      },
+      required: ['messageId'],
+    },
+  },
   {
     name: 'reset_queue',
     description: 'Reset the entire speech queue and stop any currently playing message. Use this when the current action has been cancelled.',
@@ -182,6 +780,27 @@ const TOOLS: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: 'pause_queue',
+    description: 'Pause the shared speech queue without discarding queued messages, e.g. when the user joins a call. By default the current message finishes first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        immediate: {
+          type: 'boolean',
+          description: 'Stop the current message right away. It is spoken again from the start on resume.',
+        },
+      },
+    },
+  },
+  {
+    name: 'resume_queue',
+    description: 'Resume the speech queue after pause_queue, speaking the messages that were kept',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
   {
     name: 'get_queue_status',
     description: 'Get the current status of the speech queue, including the number of queued messages and whether a message is currently being spoken',
@@ -192,46 +811,302 @@ const TOOLS: Tool[] = [
   },
 ];
 
-// Create the MCP server
-const server = new Server(
-  {
-    name: 'talkback-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+/**
+ * Create an MCP server for one client. Stdio has a single client, while each
+ * HTTP client gets its own server sharing the message queue and sessions.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'talkback-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    }
+  );
+
+  // Handle tool listing requests. The tools describe this server's configuration, such as
+  // its profiles, even when the calls run in a daemon configured differently.
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOLS };
+  });
+
+  // Handle tool execution requests, in the daemon when the queue is shared with other stdio servers
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    speechDaemon ? speechDaemon.call(request.params, sessionScope) : handleToolCall(request.params)
+  );
+
+  return server;
+}
+
+/**
+ * Run a tool with the sessions of the caller's scope, returning its result or an error response
+ */
+async function handleToolCall({ name, arguments: args }: ToolCall, scope = sessionScope): Promise<CallToolResult> {
+  const storage = getSessionStorage(scope);
+
+  try {
+    switch (name) {
+      case 'enable': {
+        const { sessionId, label, announce, profile } = args as { sessionId: string; label?: string; announce?: boolean; profile?: string };
+        
+        if (!sessionId || typeof sessionId !== 'string') {
+          throw new Error('Session ID must be a non-empty string');
+        }
+
+        if (label !== undefined && (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH)) {
+          throw new Error(`Label must be a string of at most ${MAX_LABEL_LENGTH} characters`);
+        }
+
+        if (announce !== undefined && typeof announce !== 'boolean') {
+          throw new Error('Announce must be a boolean');
+        }
+
+        if (profile !== undefined && (typeof profile !== 'string' || !Object.prototype.hasOwnProperty.call(config.profiles, profile))) {
+          throw new Error(`Profile must be one of: ${Object.keys(config.profiles).join(', ')}`);
+        }
+        
+        const session = getOrCreateSession(storage, sessionId);
+        session.enabled = true;
+        if (label !== undefined) {
+          session.label = label.trim() || undefined;
+        }
+        if (announce !== undefined) {
+          session.announce = announce;
+        }
+        if (profile !== undefined) {
+          session.profile = profile;
+        }
+        storage.set(sessionId, session); // Persist the enabled state
+        const instructions = getInitInstructions(session);
+        const introduction = getIntroduction(session);
+        
+        // Queue the introduction to be spoken
+        const queuedMessage = messageQueue.enqueue(introduction, voicePool.resolve(session.voice), {
+          ...getSpeechSettings(session),
+          sessionId: session.id,
+        });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                sessionId: session.id,
+                name: session.name,
+                voice: session.voice,
+                enabled: true,
+                label: session.label,
+                announce: session.announce ?? announceByDefault,
+                profile: getProfile(session),
+                warnings: getSharingWarnings(storage, session),
+                introduction,
+                introductionMessageId: queuedMessage.id,
+                instructions,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'disable': {
+        const { sessionId } = args as { sessionId: string };
+        
+        if (!sessionId || typeof sessionId !== 'string') {
+          throw new Error('Session ID must be a non-empty string');
+        }
+        
+        const session = getOrCreateSession(storage, sessionId);
+        session.enabled = false;
+        storage.set(sessionId, session); // Persist the disabled state
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                sessionId: session.id,
+                enabled: false,
+                message: 'Speech feature has been disabled for this session',
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'speak': {
+        const { session, queuedMessage } = queueSpeech(storage, args as unknown as SpeakArguments);
+        const queue = messageQueue.getStatus().queue;
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                messageId: queuedMessage.id,
+                message: queuedMessage.message,
+                voice: session.voice,
+                priority: queuedMessage.priority,
+                queuePosition: queue.findIndex(m => m.id === queuedMessage.id || m.parentId === queuedMessage.id) + 1,
+                parts: queuedMessage.partIds?.length,
+                replacedMessageIds: queuedMessage.replaces,
+                duplicate: queuedMessage.duplicate,
+                expiresAt: queuedMessage.expiresAt,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'speak_and_wait': {
+        const { timeoutSeconds = DEFAULT_WAIT_SECONDS } = args as { timeoutSeconds?: number };
 
-// Handle tool listing requests
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
-});
+        if (typeof timeoutSeconds !== 'number' || timeoutSeconds <= 0 || timeoutSeconds > MAX_WAIT_SECONDS) {
+          throw new Error(`Timeout must be a number of seconds between 0 and ${MAX_WAIT_SECONDS}`);
+        }
 
-// Handle tool execution requests
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+        const { session, queuedMessage } = queueSpeech(storage, args as unknown as SpeakArguments);
+        const status = await messageQueue.waitFor(queuedMessage.id, timeoutSeconds * 1000);
+        const spoken = status.state === 'spoken';
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: spoken,
+                messageId: queuedMessage.id,
+                message: queuedMessage.message,
+                voice: session.voice,
+                state: status.state,
+                timedOut: !isFinalState(status.state),
+                error: status.error,
+                reason: status.reason,
+              }),
+            },
+          ],
+          isError: !spoken,
+        };
+      }
+
+      case 'play_sound': {
+        const { sound, sessionId, priority, interrupt } = args as {
+          sound: Earcon;
+          sessionId: string;
+          priority?: MessagePriority;
+          interrupt?: boolean;
+        };
+
+        if (!sound) {
+          throw new Error(`Sound must be one of: ${EARCONS.join(', ')}`);
+        }
+        validateEarcon(sound);
 
-  try {
-    switch (name) {
-      case 'enable': {
-        const { sessionId } = args as { sessionId: string };
-        
         if (!sessionId || typeof sessionId !== 'string') {
           throw new Error('Session ID must be a non-empty string');
         }
-        
-        const session = getOrCreateSession(sessionId);
-        session.enabled = true;
-        sessionStorage.set(sessionId, session); // Persist the enabled state
-        const instructions = getInitInstructions(session);
-        const introduction = getIntroduction(session);
-        
-        // Queue the introduction to be spoken
-        const queuedMessage = messageQueue.enqueue(introduction, session.voice);
-        
+
+        if (priority !== undefined && !MESSAGE_PRIORITIES.includes(priority)) {
+          throw new Error(`Priority must be one of: ${MESSAGE_PRIORITIES.join(', ')}`);
+        }
+
+        if (interrupt !== undefined && typeof interrupt !== 'boolean') {
+          throw new Error('Interrupt must be a boolean');
+        }
+
+        const session = getOrCreateSession(storage, sessionId);
+        if (!session.enabled) {
+          throw new Error('Speech is not enabled for this session. Call the "enable" tool first.');
+        }
+
+        const queuedMessage = messageQueue.enqueue('', undefined, {
+          priority,
+          interrupt,
+          sessionId,
+          sound: { name: sound, file: earcons.fileFor(sound) },
+        });
+        const queue = messageQueue.getStatus().queue;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                messageId: queuedMessage.id,
+                sound,
+                queuePosition: queue.findIndex(m => m.id === queuedMessage.id) + 1,
+                duplicate: queuedMessage.duplicate,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'list_voices': {
+        const { locale } = (args ?? {}) as { locale?: string };
+
+        if (locale !== undefined && typeof locale !== 'string') {
+          throw new Error('Locale must be a string');
+        }
+
+        const voices = voicePool.isVerified()
+          ? voicePool.installed(locale)
+          : voicePool.list();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                engine: speechEngine.name,
+                verified: voicePool.isVerified(),
+                voices,
+              }, true),
+            },
+          ],
+        };
+      }
+
+      case 'set_voice': {
+        const { sessionId, voice, name, rate, pitch, volume } = args as {
+          sessionId: string;
+          voice?: string;
+          name?: string;
+          rate?: number;
+          pitch?: number;
+          volume?: number;
+        };
+
+        if (!sessionId || typeof sessionId !== 'string') {
+          throw new Error('Session ID must be a non-empty string');
+        }
+
+        if (voice !== undefined && (typeof voice !== 'string' || !voicePool.isInstalled(voice))) {
+          throw new Error(`Voice "${voice}" is not installed for the ${speechEngine.name} engine. Use list_voices to see the available voices.`);
+        }
+
+        if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+          throw new Error('Name must be a non-empty string');
+        }
+
+        validateSpeechSettings({ rate, pitch, volume });
+
+        const session = getOrCreateSession(storage, sessionId);
+        if (voice !== undefined) session.voice = voice;
+        if (name !== undefined) session.name = name.trim();
+        if (rate !== undefined) session.rate = rate;
+        if (pitch !== undefined) session.pitch = pitch;
+        if (volume !== undefined) session.volume = volume;
+        storage.set(sessionId, session); // Persist the voice settings
+
         return {
           content: [
             {
@@ -241,82 +1116,138 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 sessionId: session.id,
                 name: session.name,
                 voice: session.voice,
-                enabled: true,
-                introduction,
-                introductionMessageId: queuedMessage.id,
-                instructions,
+                rate: session.rate,
+                pitch: session.pitch,
+                volume: session.volume,
               }),
             },
           ],
         };
       }
 
-      case 'disable': {
+      case 'list_sessions': {
+        const { enabled } = (args ?? {}) as { enabled?: boolean };
+
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+          throw new Error('Enabled must be a boolean');
+        }
+
+        expireSessions(storage);
+        const sessions = [...storage.getAll().values()]
+          .filter(session => enabled === undefined || session.enabled === enabled)
+          .sort((a, b) => (b.lastActiveAt ?? 0) - (a.lastActiveAt ?? 0));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                count: sessions.length,
+                sessions: sessions.map(describeSession),
+              }, true),
+            },
+          ],
+        };
+      }
+
+      case 'get_session': {
         const { sessionId } = args as { sessionId: string };
-        
+
         if (!sessionId || typeof sessionId !== 'string') {
           throw new Error('Session ID must be a non-empty string');
         }
-        
-        const session = getOrCreateSession(sessionId);
-        session.enabled = false;
-        sessionStorage.set(sessionId, session); // Persist the disabled state
-        
+
+        // Looked up directly, since inspecting a session does not make it active
+        const session = storage.get(sessionId);
+        if (!session) {
+          throw new Error(`Session ${sessionId} not found. It may never have been used or have expired.`);
+        }
+
         return {
           content: [
             {
               type: 'text',
               text: formatResponse({
                 success: true,
-                sessionId: session.id,
-                enabled: false,
-                message: 'Speech feature has been disabled for this session',
-              }),
+                ...describeSession(session),
+              }, true),
             },
           ],
         };
       }
 
-      case 'speak': {
-        const { message, sessionId } = args as { message: string; sessionId: string };
-        
-        if (!message || typeof message !== 'string') {
-          throw new Error('Message must be a non-empty string');
-        }
-        
+      case 'delete_session': {
+        const { sessionId } = args as { sessionId: string };
+
         if (!sessionId || typeof sessionId !== 'string') {
           throw new Error('Session ID must be a non-empty string');
         }
-        
-        const session = getOrCreateSession(sessionId);
-        
-        if (!session.enabled) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: formatResponse({
-                  success: false,
-                  error: 'Speech is not enabled for this session. Call the "enable" tool first.',
-                }),
-              },
-            ],
-            isError: true,
-          };
+
+        const session = storage.get(sessionId);
+        const deleted = session !== undefined && storage.delete(sessionId);
+        if (deleted) {
+          voicePool.release(session.voice);
         }
-        
-        const queuedMessage = messageQueue.enqueue(message, session.voice);
-        
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: deleted,
+                sessionId,
+                message: deleted ? 'Session deleted' : 'Session not found',
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'add_pronunciation': {
+        const { word, replacement } = args as { word: string; replacement: string };
+
+        if (!word || typeof word !== 'string' || !word.trim()) {
+          throw new Error('Word must be a non-empty string');
+        }
+
+        if (!replacement || typeof replacement !== 'string' || !replacement.trim()) {
+          throw new Error('Replacement must be a non-empty string');
+        }
+
+        lexicon.set(word.trim(), replacement.trim());
+
         return {
           content: [
             {
               type: 'text',
               text: formatResponse({
                 success: true,
-                messageId: queuedMessage.id,
-                message: queuedMessage.message,
-                voice: session.voice,
-                queuePosition: messageQueue.getStatus().queueLength,
+                word: word.trim(),
+                replacement: replacement.trim(),
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'remove_pronunciation': {
+        const { word } = args as { word: string };
+
+        if (!word || typeof word !== 'string') {
+          throw new Error('Word must be a non-empty string');
+        }
+
+        const removed = lexicon.remove(word.trim());
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: removed,
+                word: word.trim(),
+                message: removed ? 'Pronunciation removed' : 'Word is not in the lexicon',
               }),
             },
           ],
@@ -331,6 +1262,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const cancelled = messageQueue.cancel(messageId);
+        const status = messageQueue.getMessageStatus(messageId);
         
         return {
           content: [
@@ -339,15 +1271,77 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: formatResponse({
                 success: cancelled,
                 messageId,
+                state: status?.state,
                 message: cancelled 
                   ? 'Message cancelled successfully' 
-                  : 'Message not found in queue',
+                  : status
+                    ? `Message could not be cancelled because it is already ${status.state}`
+                    : 'Message not found',
               }),
             },
           ],
         };
       }
 
+      case 'get_message_status': {
+        const { messageId } = args as { messageId: string };
+
+        if (!messageId || typeof messageId !== 'string') {
+          throw new Error('Message ID must be a non-empty string');
+        }
+
+        const status = messageQueue.getMessageStatus(messageId);
+        if (!status) {
+          throw new Error(`Message ${messageId} not found. It may never have existed or be too old to be remembered.`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                ...status,
+              }, true),
+            },
+          ],
+        };
+      }
+
+      case 'get_message_audio': {
+        const { messageId } = args as { messageId: string };
+
+        if (!messageId || typeof messageId !== 'string') {
+          throw new Error('Message ID must be a non-empty string');
+        }
+
+        if (!audioArchive) {
+          throw new Error('Audio files are only written when the server runs with --output file or --output both');
+        }
+
+        const records = audioArchive.find(messageId);
+        if (records.length === 0) {
+          const status = messageQueue.getMessageStatus(messageId);
+          throw new Error(status
+            ? `Message ${messageId} has no audio file because it is ${status.state}`
+            : `No audio file found for message ${messageId}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                messageId,
+                files: records.map(record => record.file),
+                records,
+              }, true),
+            },
+          ],
+        };
+      }
+
       case 'reset_queue': {
         messageQueue.reset();
         
@@ -364,6 +1358,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'pause_queue': {
+        const { immediate = false } = (args ?? {}) as { immediate?: boolean };
+
+        if (typeof immediate !== 'boolean') {
+          throw new Error('Immediate must be a boolean');
+        }
+
+        messageQueue.pause(immediate);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                message: immediate ? 'Queue paused immediately' : 'Queue will pause after the current message',
+                queueLength: messageQueue.getStatus().queueLength,
+              }),
+            },
+          ],
+        };
+      }
+
+      case 'resume_queue': {
+        messageQueue.resume();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatResponse({
+                success: true,
+                message: 'Queue resumed',
+                queueLength: messageQueue.getStatus().queueLength,
+              }),
+            },
+          ],
+        };
+      }
+
       case 'get_queue_status': {
         const status = messageQueue.getStatus();
         
@@ -375,6 +1409,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 success: true,
                 queueLength: status.queueLength,
                 isProcessing: status.isProcessing,
+                isPaused: status.isPaused,
+                expiredCount: status.expiredCount,
+                cache: status.cache,
                 queue: status.queue,
               }),
             },
@@ -400,15 +1437,59 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/**
+ * Select the speech engine and discover its installed voices
+ */
+async function initializeSpeechEngine(): Promise<{ engine: SpeechEngine; voices: VoiceInfo[] }> {
+  if (engineName === 'auto') {
+    return detectSpeechEngine();
+  }
+
+  const engine = createSpeechEngine(engineName);
+  try {
+    return { engine, voices: await engine.listVoices() };
+  } catch (error) {
+    console.error(`Could not list voices for the ${engine.name} engine:`, error);
+    return { engine, voices: [] };
+  }
+}
 
 // Start the server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  const { engine, voices } = await initializeSpeechEngine();
+  speechEngine = engine;
+  voicePool.load(voices, voiceLocale);
+  expireSessions(getSessionStorage(sessionScope));
+  audioArchive = outputMode !== 'play' ? new AudioArchive(outputDir) : undefined;
+  messageQueue = new MessageQueue(maxMessageLength, {
+    engine: speechEngine,
+    duplicateWindowMs: dedupeWindowSeconds * 1000,
+    defaultTtlMs: defaultTtlSeconds * 1000,
+    chunkLongMessages,
+    maxChunkedLength,
+    lexicon,
+    output: outputMode,
+    archive: audioArchive,
+    cache: cacheEnabled ? new AudioCache(cacheDir, cacheSizeMegabytes * 1024 * 1024) : undefined,
+  });
+  lexicon.watch();
+
+  let endpoint = 'stdio';
+  if (config.http.port !== undefined) {
+    await startHttpServer(createServer, { port: config.http.port, host: config.http.host });
+    const host = config.http.host.includes(':') ? `[${config.http.host}]` : config.http.host;
+    endpoint = `http://${host}:${config.http.port}${MCP_PATH}`;
+  } else {
+    if (config.daemon) {
+      speechDaemon = await startSpeechDaemon(getDaemonSocketPath(config.storage.sessions), handleToolCall);
+    }
+    await createServer().connect(new StdioServerTransport());
+  }
   
   // Log to stderr so it doesn't interfere with the MCP protocol
-  console.error(`Talkback MCP server running on stdio${debugMode ? ' (debug mode enabled)' : ''}`);
+  console.error(`Talkback MCP server running on ${endpoint} with the ${speechEngine.name} engine and ${voicePool.list().length} ${voicePool.isVerified() ? 'verified' : 'unverified'} voices${speechDaemon?.role === 'proxy' ? ', forwarding tool calls to the talkback daemon' : ''}${debugMode ? ' (debug mode enabled)' : ''}`);
 }
 
 main().catch((error) => {
@@ -12,13 +12,26 @@ describe('MCP Server Integration', () => {
         'enable',
         'disable',
         'speak',
+        'speak_and_wait',
+        'play_sound',
+        'list_voices',
+        'set_voice',
+        'list_sessions',
+        'get_session',
+        'delete_session',
+        'add_pronunciation',
+        'remove_pronunciation',
         'cancel_message',
+        'get_message_status',
+        'get_message_audio',
         'reset_queue',
+        'pause_queue',
+        'resume_queue',
         'get_queue_status'
       ];
       
       // This test ensures all required tools are defined
-      expect(expectedTools).toHaveLength(6);
+      expect(expectedTools).toHaveLength(19);
     });
 
     it('should have speak tool with required parameters', () => {
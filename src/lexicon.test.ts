@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Lexicon } from './lexicon';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('Lexicon', () => {
+  let directory: string;
+  let lexiconFile: string;
+  let lexicon: Lexicon;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'talkback-lexicon-'));
+    lexiconFile = join(directory, 'lexicon.json');
+  });
+
+  afterEach(() => {
+    lexicon?.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', () => {
+    lexicon = new Lexicon(lexiconFile);
+
+    expect(lexicon.list()).toEqual({});
+    expect(lexicon.apply('Hello nginx')).toBe('Hello nginx');
+  });
+
+  it('should load entries from the file', () => {
+    writeFileSync(lexiconFile, JSON.stringify({ nginx: 'engine x', Siobhan: 'shiv awn' }));
+    lexicon = new Lexicon(lexiconFile);
+
+    expect(lexicon.apply('Siobhan restarted nginx.')).toBe('shiv awn restarted engine x.');
+  });
+
+  it('should match whole words regardless of case', () => {
+    writeFileSync(lexiconFile, JSON.stringify({ vite: 'veet' }));
+    lexicon = new Lexicon(lexiconFile);
+
+    expect(lexicon.apply('Vite and VITE, not vitest')).toBe('veet and veet, not vitest');
+  });
+
+  it('should prefer phrases over the words they contain', () => {
+    writeFileSync(lexiconFile, JSON.stringify({ talkback: 'talk back', 'talkback mcp': 'talk back M C P' }));
+    lexicon = new Lexicon(lexiconFile);
+
+    expect(lexicon.apply('Started talkback mcp')).toBe('Started talk back M C P');
+  });
+
+  it('should save added and removed entries', () => {
+    lexicon = new Lexicon(lexiconFile);
+
+    lexicon.set('kubectl', 'cube control');
+    lexicon.set('nginx', 'engine x');
+    expect(lexicon.remove('NGINX')).toBe(true);
+    expect(lexicon.remove('nginx')).toBe(false);
+
+    expect(JSON.parse(readFileSync(lexiconFile, 'utf-8'))).toEqual({ kubectl: 'cube control' });
+    expect(lexicon.apply('Ran kubectl')).toBe('Ran cube control');
+  });
+
+  it('should keep the current entries when the file is invalid', async () => {
+    writeFileSync(lexiconFile, JSON.stringify({ nginx: 'engine x' }));
+    lexicon = new Lexicon(lexiconFile);
+    lexicon.watch();
+
+    writeFileSync(lexiconFile, '{ invalid json');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(lexicon.list()).toEqual({ nginx: 'engine x' });
+  });
+
+  it('should reload when the file changes', async () => {
+    lexicon = new Lexicon(lexiconFile);
+    lexicon.watch();
+
+    writeFileSync(lexiconFile, JSON.stringify({ nginx: 'engine x' }));
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(lexicon.apply('nginx')).toBe('engine x');
+  });
+});
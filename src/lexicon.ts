@@ -0,0 +1,153 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync, watch, FSWatcher } from 'fs';
+import { basename, dirname, join } from 'path';
+import { homedir } from 'os';
+
+// Lexicon used when --lexicon is not given
+export const DEFAULT_LEXICON_PATH = join(homedir(), '.config', 'talkback-mcp', 'lexicon.json');
+
+/**
+ * Pronunciation lexicon mapping words to the spelling the speech engine should say instead.
+ * Entries are stored as a JSON object in a file that is reloaded whenever it changes.
+ */
+export class Lexicon {
+  private readonly filePath: string;
+  private entries = new Map<string, string>();
+  private pattern: RegExp | null = null;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | undefined;
+
+  constructor(filePath: string = DEFAULT_LEXICON_PATH) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  /**
+   * Replace every whole-word, case-insensitive occurrence of a lexicon word
+   */
+  apply(text: string): string {
+    if (!this.pattern) {
+      return text;
+    }
+
+    return text.replace(this.pattern, word => this.entries.get(word.toLowerCase()) ?? word);
+  }
+
+  /**
+   * Add or update an entry and save the lexicon
+   */
+  set(word: string, replacement: string): void {
+    this.entries.set(word.toLowerCase(), replacement);
+    this.compile();
+    this.save();
+  }
+
+  /**
+   * Remove an entry and save the lexicon. Returns false if the word was not in the lexicon.
+   */
+  remove(word: string): boolean {
+    if (!this.entries.delete(word.toLowerCase())) {
+      return false;
+    }
+
+    this.compile();
+    this.save();
+    return true;
+  }
+
+  /**
+   * Get the entries as a word to replacement object
+   */
+  list(): Record<string, string> {
+    return Object.fromEntries(this.entries);
+  }
+
+  /**
+   * Reload the lexicon whenever its file is created, changed or replaced
+   */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    const directory = dirname(this.filePath);
+    const fileName = basename(this.filePath);
+
+    try {
+      mkdirSync(directory, { recursive: true });
+      // Watch the directory so editors that replace the file on save are noticed too
+      this.watcher = watch(directory, (_event, changed) => {
+        if (changed && changed.toString() !== fileName) {
+          return;
+        }
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.load(), 50);
+      });
+      this.watcher.unref();
+    } catch (error) {
+      console.error('Error watching lexicon file:', error);
+    }
+  }
+
+  /**
+   * Stop watching the lexicon file
+   */
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Load entries from disk, keeping the current entries if the file is invalid
+   */
+  private load(): void {
+    try {
+      if (!existsSync(this.filePath)) {
+        this.entries = new Map();
+        this.compile();
+        return;
+      }
+
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as unknown;
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('Lexicon must be a JSON object of word to replacement');
+      }
+
+      this.entries = new Map(
+        Object.entries(data)
+          .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[0].trim() !== '')
+          .map(([word, replacement]) => [word.toLowerCase(), replacement])
+      );
+      this.compile();
+    } catch (error) {
+      console.error(`Error loading lexicon from ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Save entries to disk
+   */
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(this.list(), null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving lexicon to disk:', error);
+    }
+  }
+
+  /**
+   * Build one pattern matching every word, longest first so phrases win over their words
+   */
+  private compile(): void {
+    if (this.entries.size === 0) {
+      this.pattern = null;
+      return;
+    }
+
+    const words = [...this.entries.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${words.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  }
+}
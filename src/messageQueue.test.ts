@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { MessageQueue } from './messageQueue';
+import { SpeechEngine, SpeechOptions, SilentEngine } from './speechEngine';
+import { Lexicon } from './lexicon';
+import { AudioArchive } from './audioArchive';
+import { AudioPlayer } from './audioPlayer';
+import { AudioCache } from './audioCache';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import { spawn } from 'child_process';
 import { EventEmitter } from 'events';
 
@@ -8,6 +16,26 @@ vi.mock('child_process', () => ({
   spawn: vi.fn(),
 }));
 
+/**
+ * Engine whose messages keep speaking until the test calls their entry in
+ * finishSpeaking, which fails the message when given an error
+ */
+function createFakeEngine() {
+  const finishSpeaking: Array<(error?: Error) => void> = [];
+  const engine = {
+    name: 'fake',
+    speak: vi.fn((_text: string, _options?: SpeechOptions) => new Promise<void>((resolve, reject) => {
+      finishSpeaking.push(error => (error ? reject(error) : resolve()));
+    })),
+    // Stopping fails the message being spoken, like a killed process
+    stop: vi.fn(() => finishSpeaking[finishSpeaking.length - 1]?.(new Error('stopped'))),
+    listVoices: vi.fn(async () => []),
+  } satisfies SpeechEngine;
+  return { engine, finishSpeaking };
+}
+
+type FakeEngine = ReturnType<typeof createFakeEngine>['engine'];
+
 describe('MessageQueue', () => {
   let queue: MessageQueue;
   let mockProcesses: Array<EventEmitter & { kill: ReturnType<typeof vi.fn> }>;
@@ -287,4 +315,815 @@ describe('MessageQueue', () => {
       expect(spawn).toHaveBeenNthCalledWith(2, 'say', ['-v', 'Samantha', 'Message 2']);
     });
   });
+
+  describe('speech engine', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(500, { engine });
+    });
+
+    it('should speak through the injected engine', async () => {
+      queue.enqueue('Message 1', 'Alex');
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).toHaveBeenCalledWith('Message 1', { voice: 'Alex' });
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
+    it('should pass rate, pitch and volume to the engine', async () => {
+      const queuedMessage = queue.enqueue('Message 1', 'Alex', { rate: 250, pitch: 40, volume: 70 });
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queuedMessage.rate).toBe(250);
+      expect(engine.speak).toHaveBeenCalledWith('Message 1', { voice: 'Alex', rate: 250, pitch: 40, volume: 70 });
+    });
+
+    it('should speak the next message once the engine finishes', async () => {
+      queue.enqueue('Message 1');
+      queue.enqueue('Message 2');
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).toHaveBeenCalledTimes(2);
+      expect(engine.speak).toHaveBeenNthCalledWith(2, 'Message 2', { voice: undefined });
+    });
+
+    it('should stop the engine on reset', () => {
+      queue.enqueue('Message 1');
+      queue.reset();
+
+      expect(engine.stop).toHaveBeenCalled();
+    });
+
+    it('should apply the lexicon when a message is spoken', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'talkback-lexicon-'));
+      const lexicon = new Lexicon(join(directory, 'lexicon.json'));
+      queue = new MessageQueue(500, { engine, lexicon });
+
+      const queuedMessage = queue.enqueue('Restarting nginx');
+      queue.enqueue('Restarted nginx');
+      lexicon.set('nginx', 'engine x');
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+      rmSync(directory, { recursive: true, force: true });
+
+      expect(queuedMessage.message).toBe('Restarting nginx');
+      expect(engine.speak).toHaveBeenNthCalledWith(2, 'Restarted engine x', { voice: undefined });
+    });
+  });
+
+  describe('priority', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(500, { engine });
+    });
+
+    it('should default to normal priority', () => {
+      const queuedMessage = queue.enqueue('Message 1');
+
+      expect(queuedMessage.priority).toBe('normal');
+    });
+
+    it('should queue higher priority messages ahead of lower ones', () => {
+      queue.enqueue('Playing', undefined, { priority: 'low' });
+      queue.enqueue('Low', undefined, { priority: 'low' });
+      queue.enqueue('Normal');
+      queue.enqueue('Urgent', undefined, { priority: 'urgent' });
+      queue.enqueue('High', undefined, { priority: 'high' });
+
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Playing', 'Urgent', 'High', 'Normal', 'Low']);
+    });
+
+    it('should keep FIFO order within the same priority', () => {
+      queue.enqueue('Playing');
+      queue.enqueue('First', undefined, { priority: 'high' });
+      queue.enqueue('Second', undefined, { priority: 'high' });
+
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Playing', 'First', 'Second']);
+    });
+
+    it('should interrupt a lower priority message when asked to', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      queue.enqueue('Progress update', undefined, { priority: 'low' });
+      queue.enqueue('Another update', undefined, { priority: 'low' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queue.enqueue('I need your input', undefined, { priority: 'urgent', interrupt: true });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.stop).toHaveBeenCalledTimes(1);
+      expect(engine.speak).toHaveBeenNthCalledWith(2, 'I need your input', expect.any(Object));
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['I need your input', 'Another update']);
+      expect(errorSpy).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should not interrupt a message with the same or higher priority', async () => {
+      queue.enqueue('Question', undefined, { priority: 'urgent' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queue.enqueue('Another question', undefined, { priority: 'urgent', interrupt: true });
+
+      expect(engine.stop).not.toHaveBeenCalled();
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Question', 'Another question']);
+    });
+
+    it('should not interrupt without the interrupt option', async () => {
+      queue.enqueue('Progress update', undefined, { priority: 'low' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queue.enqueue('Urgent', undefined, { priority: 'urgent' });
+
+      expect(engine.stop).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('topics', () => {
+    it('should replace a queued message with the same topic', () => {
+      queue.enqueue('Playing');
+      const running = queue.enqueue('Running tests...', undefined, { sessionId: 's1', topic: 'tests' });
+      queue.enqueue('Other work', undefined, { sessionId: 's1' });
+      const progress = queue.enqueue('Tests 50% done', undefined, { sessionId: 's1', topic: 'tests' });
+
+      expect(progress.replaces).toEqual([running.id]);
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Playing', 'Tests 50% done', 'Other work']);
+    });
+
+    it('should not replace the message being spoken', async () => {
+      queue.enqueue('Running tests...', undefined, { sessionId: 's1', topic: 'tests' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const progress = queue.enqueue('Tests 50% done', undefined, { sessionId: 's1', topic: 'tests' });
+
+      expect(progress.replaces).toBeUndefined();
+      expect(queue.getStatus().queueLength).toBe(2);
+    });
+
+    it('should only replace messages from the same session', () => {
+      queue.enqueue('Playing');
+      queue.enqueue('Building', undefined, { sessionId: 's1', topic: 'build' });
+      queue.enqueue('Building', undefined, { sessionId: 's2', topic: 'build' });
+
+      expect(queue.getStatus().queueLength).toBe(3);
+    });
+
+    it('should move the replacement when its priority differs', () => {
+      queue.enqueue('Playing');
+      queue.enqueue('Tests running', undefined, { sessionId: 's1', topic: 'tests', priority: 'low' });
+      queue.enqueue('Normal message');
+      queue.enqueue('Tests failed', undefined, { sessionId: 's1', topic: 'tests', priority: 'high' });
+
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Playing', 'Tests failed', 'Normal message']);
+    });
+  });
+
+  describe('duplicate suppression', () => {
+    it('should return the earlier message for a duplicate within the window', () => {
+      const dedupeQueue = new MessageQueue(500, { duplicateWindowMs: 5000 });
+      const first = dedupeQueue.enqueue('Running the tests now', 'Alex', { sessionId: 's1' });
+      const second = dedupeQueue.enqueue('Running the tests now', 'Alex', { sessionId: 's1' });
+
+      expect(second.id).toBe(first.id);
+      expect(second.duplicate).toBe(true);
+      expect(dedupeQueue.getStatus().queueLength).toBe(1);
+    });
+
+    it('should allow duplicates after the window has passed', () => {
+      vi.useFakeTimers();
+      try {
+        const dedupeQueue = new MessageQueue(500, { duplicateWindowMs: 5000 });
+        dedupeQueue.enqueue('Running the tests now', undefined, { sessionId: 's1' });
+        vi.advanceTimersByTime(6000);
+        const second = dedupeQueue.enqueue('Running the tests now', undefined, { sessionId: 's1' });
+
+        expect(second.duplicate).toBeUndefined();
+        expect(dedupeQueue.getStatus().queueLength).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not suppress the same text from a different session', () => {
+      const dedupeQueue = new MessageQueue(500, { duplicateWindowMs: 5000 });
+      dedupeQueue.enqueue('Done', undefined, { sessionId: 's1' });
+      const second = dedupeQueue.enqueue('Done', undefined, { sessionId: 's2' });
+
+      expect(second.duplicate).toBeUndefined();
+    });
+
+    it('should not treat cancelled messages as duplicates', () => {
+      const dedupeQueue = new MessageQueue(500, { duplicateWindowMs: 5000 });
+      dedupeQueue.enqueue('Playing');
+      const first = dedupeQueue.enqueue('Done', undefined, { sessionId: 's1' });
+      dedupeQueue.cancel(first.id);
+      const second = dedupeQueue.enqueue('Done', undefined, { sessionId: 's1' });
+
+      expect(second.duplicate).toBeUndefined();
+    });
+
+    it('should not suppress duplicates by default', () => {
+      queue.enqueue('Done');
+      const second = queue.enqueue('Done');
+
+      expect(second.duplicate).toBeUndefined();
+      expect(queue.getStatus().queueLength).toBe(2);
+    });
+  });
+
+  describe('expiry', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      ({ engine, finishSpeaking } = createFakeEngine());
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should set expiresAt from the message TTL', () => {
+      const ttlQueue = new MessageQueue(500, { engine });
+      const queuedMessage = ttlQueue.enqueue('Message 1', undefined, { ttlMs: 1000 });
+
+      expect(queuedMessage.expiresAt).toBe(queuedMessage.timestamp + 1000);
+    });
+
+    it('should skip messages that expired while waiting and count them', async () => {
+      const ttlQueue = new MessageQueue(500, { engine });
+      ttlQueue.enqueue('Long message');
+      ttlQueue.enqueue('Tests are running', undefined, { ttlMs: 1000 });
+      ttlQueue.enqueue('Still relevant');
+
+      await vi.advanceTimersByTimeAsync(2000);
+      finishSpeaking[0]();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(engine.speak).toHaveBeenCalledTimes(2);
+      expect(engine.speak).toHaveBeenLastCalledWith('Still relevant', expect.any(Object));
+      expect(ttlQueue.getStatus().expiredCount).toBe(1);
+    });
+
+    it('should apply the default TTL to messages without their own', () => {
+      const ttlQueue = new MessageQueue(500, { engine, defaultTtlMs: 30000 });
+      const withDefault = ttlQueue.enqueue('Message 1');
+      const withOwn = ttlQueue.enqueue('Message 2', undefined, { ttlMs: 5000 });
+
+      expect(withDefault.expiresAt).toBe(withDefault.timestamp + 30000);
+      expect(withOwn.expiresAt).toBe(withOwn.timestamp + 5000);
+    });
+
+    it('should keep messages without a TTL until spoken', () => {
+      const ttlQueue = new MessageQueue(500, { engine });
+      const queuedMessage = ttlQueue.enqueue('Message 1');
+
+      expect(queuedMessage.expiresAt).toBeUndefined();
+    });
+  });
+
+  describe('message status', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(500, { engine });
+    });
+
+    it('should track a message from queued to spoken', async () => {
+      const msg1 = queue.enqueue('Message 1', undefined, { sessionId: 's1' });
+      const msg2 = queue.enqueue('Message 2');
+
+      expect(queue.getMessageStatus(msg1.id)).toMatchObject({ state: 'speaking', sessionId: 's1' });
+      expect(queue.getMessageStatus(msg2.id)).toMatchObject({ state: 'queued', queuedAt: msg2.timestamp });
+
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const status = queue.getMessageStatus(msg1.id);
+      expect(status?.state).toBe('spoken');
+      expect(status?.startedAt).toBeGreaterThanOrEqual(msg1.timestamp);
+      expect(status?.finishedAt).toBeGreaterThanOrEqual(status!.startedAt!);
+    });
+
+    it('should record failures with their error', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const msg1 = queue.enqueue('Message 1');
+
+      finishSpeaking[0](new Error('say command exited with code 1'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queue.getMessageStatus(msg1.id)).toMatchObject({
+        state: 'failed',
+        error: 'say command exited with code 1',
+      });
+      errorSpy.mockRestore();
+    });
+
+    it('should record cancelled messages with the reason', async () => {
+      queue.enqueue('Playing', undefined, { priority: 'low' });
+      const cancelled = queue.enqueue('Cancelled');
+      const replaced = queue.enqueue('Tests running', undefined, { topic: 'tests' });
+      queue.enqueue('Tests done', undefined, { topic: 'tests' });
+      queue.cancel(cancelled.id);
+
+      expect(queue.getMessageStatus(cancelled.id)).toMatchObject({ state: 'cancelled', reason: 'cancelled' });
+      expect(queue.getMessageStatus(replaced.id)).toMatchObject({ state: 'cancelled', reason: 'replaced' });
+    });
+
+    it('should stop playback when the message being spoken is cancelled', async () => {
+      const msg1 = queue.enqueue('Message 1');
+
+      expect(queue.cancel(msg1.id)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.stop).toHaveBeenCalled();
+      expect(queue.getMessageStatus(msg1.id)?.state).toBe('cancelled');
+    });
+
+    it('should record interrupted and reset messages as cancelled', async () => {
+      const playing = queue.enqueue('Progress', undefined, { priority: 'low' });
+      const urgent = queue.enqueue('Question', undefined, { priority: 'urgent', interrupt: true });
+      const waiting = queue.enqueue('Waiting');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      queue.reset();
+
+      expect(queue.getMessageStatus(playing.id)).toMatchObject({ state: 'cancelled', reason: 'interrupted' });
+      expect(queue.getMessageStatus(urgent.id)).toMatchObject({ state: 'cancelled', reason: 'reset' });
+      expect(queue.getMessageStatus(waiting.id)).toMatchObject({ state: 'cancelled', reason: 'reset' });
+    });
+
+    it('should record expired messages', async () => {
+      vi.useFakeTimers();
+      try {
+        queue.enqueue('Long message');
+        const stale = queue.enqueue('Stale', undefined, { ttlMs: 100 });
+
+        await vi.advanceTimersByTimeAsync(200);
+        finishSpeaking[0]();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(queue.getMessageStatus(stale.id)?.state).toBe('expired');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should return undefined for unknown messages', () => {
+      expect(queue.getMessageStatus('non-existent-id')).toBeUndefined();
+    });
+
+    it('should forget the oldest finished messages beyond the history limit', async () => {
+      const limitedQueue = new MessageQueue(500, { engine, historyLimit: 2 });
+      const first = limitedQueue.enqueue('Message 1');
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const second = limitedQueue.enqueue('Message 2');
+      const third = limitedQueue.enqueue('Message 3');
+
+      expect(limitedQueue.getMessageStatus(first.id)).toBeUndefined();
+      expect(limitedQueue.getMessageStatus(second.id)?.state).toBe('speaking');
+      expect(limitedQueue.getMessageStatus(third.id)?.state).toBe('queued');
+    });
+  });
+
+  describe('waitFor', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(500, { engine });
+    });
+
+    it('should resolve once the message has been spoken', async () => {
+      const msg1 = queue.enqueue('Should I deploy?');
+      const waiting = queue.waitFor(msg1.id);
+
+      finishSpeaking[0]();
+
+      await expect(waiting).resolves.toMatchObject({ id: msg1.id, state: 'spoken' });
+    });
+
+    it('should resolve when the message is cancelled', async () => {
+      queue.enqueue('Playing');
+      const msg2 = queue.enqueue('Should I deploy?');
+      const waiting = queue.waitFor(msg2.id);
+
+      queue.cancel(msg2.id);
+
+      await expect(waiting).resolves.toMatchObject({ state: 'cancelled', reason: 'cancelled' });
+    });
+
+    it('should resolve with the current state after the timeout', async () => {
+      queue.enqueue('Playing');
+      const msg2 = queue.enqueue('Should I deploy?');
+
+      const result = await queue.waitFor(msg2.id, 10);
+
+      expect(result.state).toBe('queued');
+    });
+
+    it('should resolve immediately for finished messages', async () => {
+      const msg1 = queue.enqueue('Done');
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await expect(queue.waitFor(msg1.id)).resolves.toMatchObject({ state: 'spoken' });
+    });
+
+    it('should support several waiters for the same message', async () => {
+      const msg1 = queue.enqueue('Question');
+      const first = queue.waitFor(msg1.id);
+      const second = queue.waitFor(msg1.id, 5000);
+
+      finishSpeaking[0]();
+
+      await expect(Promise.all([first, second])).resolves.toEqual([
+        expect.objectContaining({ state: 'spoken' }),
+        expect.objectContaining({ state: 'spoken' }),
+      ]);
+    });
+
+    it('should reject for unknown messages', async () => {
+      await expect(queue.waitFor('non-existent-id')).rejects.toThrow('Message non-existent-id not found');
+    });
+  });
+
+  describe('pause and resume', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(500, { engine });
+    });
+
+    it('should finish the current message and then hold the queue', async () => {
+      const msg1 = queue.enqueue('Message 1');
+      queue.enqueue('Message 2');
+
+      queue.pause();
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.stop).not.toHaveBeenCalled();
+      expect(engine.speak).toHaveBeenCalledTimes(1);
+      expect(queue.getMessageStatus(msg1.id)?.state).toBe('spoken');
+      expect(queue.getStatus()).toMatchObject({ isPaused: true, isProcessing: false, queueLength: 1 });
+    });
+
+    it('should stop immediately and speak the interrupted message again on resume', async () => {
+      const msg1 = queue.enqueue('Message 1');
+      queue.enqueue('Message 2');
+
+      queue.pause(true);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.stop).toHaveBeenCalled();
+      expect(queue.getMessageStatus(msg1.id)?.state).toBe('queued');
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Message 1', 'Message 2']);
+
+      queue.resume();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).toHaveBeenCalledTimes(2);
+      expect(engine.speak).toHaveBeenLastCalledWith('Message 1', expect.any(Object));
+      expect(queue.getMessageStatus(msg1.id)?.state).toBe('speaking');
+    });
+
+    it('should keep new messages queued while paused', async () => {
+      queue.pause();
+      queue.enqueue('Message 1');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).not.toHaveBeenCalled();
+      expect(queue.getStatus().queueLength).toBe(1);
+
+      queue.resume();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).toHaveBeenCalledWith('Message 1', expect.any(Object));
+      expect(queue.getStatus().isPaused).toBe(false);
+    });
+
+    it('should ignore resume when not paused', () => {
+      queue.enqueue('Message 1');
+      queue.resume();
+
+      expect(engine.speak).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('chunking', () => {
+    let engine: FakeEngine;
+    let finishSpeaking: Array<(error?: Error) => void>;
+    const longMessage = 'The build passed. All tests are green. Should I deploy now?';
+
+    beforeEach(() => {
+      ({ engine, finishSpeaking } = createFakeEngine());
+      queue = new MessageQueue(30, { engine, chunkLongMessages: true });
+    });
+
+    it('should queue a long message as one part per sentence', () => {
+      const msg = queue.enqueue(longMessage);
+
+      expect(msg.partIds).toEqual([`${msg.id}.1`, `${msg.id}.2`, `${msg.id}.3`]);
+      expect(queue.getStatus().queue.map(m => [m.message, m.parentId])).toEqual([
+        ['The build passed.', msg.id],
+        ['All tests are green.', msg.id],
+        ['Should I deploy now?', msg.id],
+      ]);
+    });
+
+    it('should leave short messages whole', () => {
+      const msg = queue.enqueue('Build passed.');
+
+      expect(msg.partIds).toBeUndefined();
+      expect(queue.getStatus().queue[0]).toMatchObject({ id: msg.id, message: 'Build passed.' });
+    });
+
+    it('should not split or truncate SSML messages', () => {
+      const ssml = `<speak>${longMessage}<break time="1s"/></speak>`;
+      const msg = queue.enqueue(ssml, undefined, { format: 'ssml' });
+
+      expect(msg.partIds).toBeUndefined();
+      expect(queue.getStatus().queue[0]).toMatchObject({ message: ssml, format: 'ssml' });
+    });
+
+    it('should truncate instead when chunking is disabled', () => {
+      queue = new MessageQueue(30, { engine });
+      const msg = queue.enqueue(longMessage);
+
+      expect(msg.message).toBe('The build passed. All tests...');
+    });
+
+    it('should cap the overall length with a spoken cue', () => {
+      queue = new MessageQueue(30, { engine, chunkLongMessages: true, maxChunkedLength: 40 });
+      const msg = queue.enqueue(longMessage);
+
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual([
+        'The build passed.',
+        'All tests are green.',
+        'Message shortened.',
+      ]);
+      expect(msg.message).toBe('The build passed. All tests are green. Message shortened.');
+    });
+
+    it('should track the parent message until every part is spoken', async () => {
+      const msg = queue.enqueue(longMessage);
+      const waiting = queue.waitFor(msg.id);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queue.getMessageStatus(msg.id)?.state).toBe('speaking');
+
+      for (let i = 0; i < 3; i++) {
+        finishSpeaking[i]();
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      await expect(waiting).resolves.toMatchObject({ id: msg.id, state: 'spoken' });
+      expect(engine.speak).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cancel every remaining part by the parent ID', async () => {
+      const msg = queue.enqueue(longMessage);
+
+      expect(queue.cancel(msg.id)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.stop).toHaveBeenCalled();
+      expect(queue.getStatus().queueLength).toBe(0);
+      expect(queue.getMessageStatus(msg.id)).toMatchObject({ state: 'cancelled', reason: 'cancelled' });
+    });
+
+    it('should speak higher priority messages between sentences', async () => {
+      queue.enqueue(longMessage);
+      queue.enqueue('Tests failed!', undefined, { priority: 'high' });
+
+      finishSpeaking[0]();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).toHaveBeenLastCalledWith('Tests failed!', expect.any(Object));
+    });
+
+    it('should drop the remaining parts when interrupted', async () => {
+      const msg = queue.enqueue(longMessage);
+      queue.enqueue('Tests failed!', undefined, { priority: 'urgent', interrupt: true });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['Tests failed!']);
+      expect(queue.getMessageStatus(msg.id)).toMatchObject({ state: 'cancelled', reason: 'interrupted' });
+    });
+
+    it('should replace the remaining parts of a message with the same topic', () => {
+      const msg1 = queue.enqueue(longMessage, undefined, { topic: 'build' });
+      const msg2 = queue.enqueue('Build failed.', undefined, { topic: 'build' });
+
+      expect(msg2.replaces).toEqual([msg1.id]);
+      expect(queue.getStatus().queue.map(m => m.message)).toEqual(['The build passed.', 'Build failed.']);
+    });
+  });
+
+  describe('audio output', () => {
+    let engine: FakeEngine & { audioFormat: 'wav'; synthesize: ReturnType<typeof vi.fn> };
+    let player: AudioPlayer & { play: ReturnType<typeof vi.fn> };
+    let archive: AudioArchive;
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'talkback-audio-'));
+      archive = new AudioArchive(directory);
+      engine = { ...createFakeEngine().engine, audioFormat: 'wav', synthesize: vi.fn(async () => {}) };
+      engine.speak.mockImplementation(async () => {});
+      player = Object.assign(new AudioPlayer(), { play: vi.fn(async () => {}) });
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should render messages to files without playing them', async () => {
+      queue = new MessageQueue(500, { engine, output: 'file', archive, player });
+      const msg = queue.enqueue('Build passed', 'Alex', { sessionId: 's1' });
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const file = join(directory, `${msg.id}.wav`);
+      expect(engine.synthesize).toHaveBeenCalledWith('Build passed', file, expect.objectContaining({ voice: 'Alex' }));
+      expect(engine.speak).not.toHaveBeenCalled();
+      expect(player.play).not.toHaveBeenCalled();
+      expect(archive.find(msg.id)).toEqual([
+        { messageId: msg.id, file, text: 'Build passed', sessionId: 's1', voice: 'Alex', timestamp: expect.any(Number) },
+      ]);
+      expect(queue.getMessageStatus(msg.id)?.state).toBe('spoken');
+    });
+
+    it('should play rendered files in both mode', async () => {
+      queue = new MessageQueue(500, { engine, output: 'both', archive, player });
+      const msg = queue.enqueue('Build passed');
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(player.play).toHaveBeenCalledWith(join(directory, `${msg.id}.wav`));
+    });
+
+    it('should play repeated messages from the audio cache', async () => {
+      const cache = new AudioCache(join(directory, 'cache'));
+      engine.synthesize.mockImplementation(async (_text: string, file: string) => writeFileSync(file, 'audio'));
+      queue = new MessageQueue(500, { engine, cache, player });
+
+      queue.enqueue('Running the tests', 'Alex');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      queue.enqueue('Running the tests', 'Alex');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(engine.speak).not.toHaveBeenCalled();
+      expect(engine.synthesize).toHaveBeenCalledTimes(1);
+      expect(player.play).toHaveBeenCalledTimes(2);
+      expect(player.play).toHaveBeenLastCalledWith(expect.stringMatching(/cache\/[0-9a-f]{64}\.wav$/));
+      expect(queue.getStatus().cache).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+    });
+
+    it('should not cache audio from a rendering that failed', async () => {
+      const cache = new AudioCache(join(directory, 'cache'));
+      engine.synthesize.mockRejectedValue(new Error('render failed'));
+      queue = new MessageQueue(500, { engine, cache, player });
+
+      const msg = queue.enqueue('Running the tests');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(player.play).not.toHaveBeenCalled();
+      expect(queue.getMessageStatus(msg.id)).toMatchObject({ state: 'failed', error: 'render failed' });
+      expect(queue.getStatus().cache?.entries).toBe(0);
+    });
+
+    it('should play a message\'s sound before speaking it', async () => {
+      const calls: string[] = [];
+      player.play.mockImplementation(async (file: string) => { calls.push(`play ${file}`); });
+      engine.speak.mockImplementation(async (text: string) => { calls.push(`speak ${text}`); });
+      queue = new MessageQueue(500, { engine, player });
+
+      queue.enqueue('Tests passed', undefined, { sound: { name: 'success', file: '/sounds/success.wav' } });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(calls).toEqual(['play /sounds/success.wav', 'speak Tests passed']);
+    });
+
+    it('should play sounds without text through the queue', async () => {
+      queue = new MessageQueue(500, { engine, player });
+
+      const msg = queue.enqueue('', undefined, { sound: { name: 'failure', file: '/sounds/failure.wav' } });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(player.play).toHaveBeenCalledWith('/sounds/failure.wav');
+      expect(engine.speak).not.toHaveBeenCalled();
+      expect(queue.getMessageStatus(msg.id)?.state).toBe('spoken');
+    });
+
+    it('should only suppress duplicates with the same sound', () => {
+      queue = new MessageQueue(500, { engine, player, duplicateWindowMs: 10000 });
+
+      const success = queue.enqueue('', undefined, { sound: { name: 'success', file: '/sounds/success.wav' } });
+      const failure = queue.enqueue('', undefined, { sound: { name: 'failure', file: '/sounds/failure.wav' } });
+      const repeated = queue.enqueue('', undefined, { sound: { name: 'success', file: '/sounds/success.wav' } });
+
+      expect(failure.duplicate).toBeUndefined();
+      expect(repeated).toMatchObject({ id: success.id, duplicate: true });
+    });
+
+    it('should not play sounds when only rendering files', async () => {
+      queue = new MessageQueue(500, { engine, output: 'file', archive, player });
+
+      queue.enqueue('Tests passed', undefined, { sound: { name: 'success', file: '/sounds/success.wav' } });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(player.play).not.toHaveBeenCalled();
+      expect(engine.synthesize).toHaveBeenCalled();
+    });
+
+    it('should not play sounds with the silent engine', async () => {
+      queue = new MessageQueue(500, { engine: new SilentEngine(), player });
+
+      const msg = queue.enqueue('', undefined, { sound: { name: 'success', file: '/sounds/success.wav' } });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(player.play).not.toHaveBeenCalled();
+      expect(queue.getMessageStatus(msg.id)?.state).toBe('spoken');
+    });
+
+    it('should reject engines that cannot render files', () => {
+      const { synthesize: _synthesize, ...playOnly } = engine;
+
+      expect(() => new MessageQueue(500, { engine: playOnly, output: 'file', archive }))
+        .toThrow('The fake engine cannot render audio files');
+    });
+  });
+
+  describe('announcements', () => {
+    let engine: FakeEngine;
+
+    beforeEach(() => {
+      ({ engine } = createFakeEngine());
+      engine.speak.mockImplementation(async () => {});
+      queue = new MessageQueue(500, { engine });
+    });
+
+    const spokenTexts = () => engine.speak.mock.calls.map(([text]) => text);
+
+    it('should announce a session only when the speaker changes', async () => {
+      queue.enqueue('Tests passed', undefined, { sessionId: 'a', announcement: 'Alex, backend repo' });
+      queue.enqueue('Deploying', undefined, { sessionId: 'a', announcement: 'Alex, backend repo' });
+      queue.enqueue('Build failed', undefined, { sessionId: 'b', announcement: 'Sam' });
+      queue.enqueue('Retrying', undefined, { sessionId: 'a', announcement: 'Alex, backend repo' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(spokenTexts()).toEqual([
+        'Alex, backend repo: Tests passed',
+        'Deploying',
+        'Sam: Build failed',
+        'Alex, backend repo: Retrying',
+      ]);
+    });
+
+    it('should count messages of sessions that are not announced as a change of speaker', async () => {
+      queue.enqueue('Tests passed', undefined, { sessionId: 'a', announcement: 'Alex' });
+      queue.enqueue('Build failed', undefined, { sessionId: 'b' });
+      queue.enqueue('Retrying', undefined, { sessionId: 'a', announcement: 'Alex' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(spokenTexts()).toEqual(['Alex: Tests passed', 'Build failed', 'Alex: Retrying']);
+    });
+
+    it('should only announce the first part of a split message', async () => {
+      queue = new MessageQueue(20, { engine, chunkLongMessages: true });
+
+      queue.enqueue('The build passed. Deploying it now.', undefined, { sessionId: 'a', announcement: 'Alex' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(spokenTexts()).toEqual(['Alex: The build passed.', 'Deploying it now.']);
+    });
+
+    it('should announce inside the root of SSML messages', async () => {
+      queue.enqueue('<speak>Build <emphasis>failed</emphasis></speak>', undefined, { sessionId: 'a', announcement: 'Alex', format: 'ssml' });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(spokenTexts()).toEqual(['<speak>Alex: Build <emphasis>failed</emphasis></speak>']);
+    });
+  });
 });
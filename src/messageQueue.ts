@@ -1,35 +1,238 @@
-import { spawn, ChildProcess } from 'child_process';
+import { SpeechEngine, SayEngine, MessageFormat, SpeechOptions } from './speechEngine.js';
+import { AudioArchive } from './audioArchive.js';
+import { AudioPlayer } from './audioPlayer.js';
+import { AudioCache, AudioCacheStats } from './audioCache.js';
+import { mapSsmlText, prependSsmlText } from './ssml.js';
+import { splitIntoChunks, capChunks } from './textChunker.js';
+import { Lexicon } from './lexicon.js';
+
+export const MESSAGE_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+
+export type MessagePriority = typeof MESSAGE_PRIORITIES[number];
+
+// Whether messages are played, rendered to audio files, or both
+export const OUTPUT_MODES = ['play', 'file', 'both'] as const;
+
+export type OutputMode = typeof OUTPUT_MODES[number];
+
+// A sound file, such as an earcon, played before the message text
+export interface QueuedSound {
+  name: string;
+  file: string;
+}
 
 export interface QueuedMessage {
   id: string;
   message: string;
   timestamp: number;
+  priority: MessagePriority;
   voice?: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  sessionId?: string;
+  topic?: string;
+  // Time after which the message is dropped instead of spoken
+  expiresAt?: number;
+  // IDs of queued messages this message replaced because they shared its topic
+  replaces?: string[];
+  // Set on the copy returned by enqueue when the message was suppressed as a duplicate of this one
+  duplicate?: boolean;
+  // ID of the long message this message is one sentence of
+  parentId?: string;
+  // IDs of the parts a long message was split into, in speaking order
+  partIds?: string[];
+  format?: MessageFormat;
+  // Played before the text; a message may be just a sound with empty text
+  sound?: QueuedSound;
+  // Spoken before the text when the previous message came from another session
+  announcement?: string;
+}
+
+export interface EnqueueOptions {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  priority?: MessagePriority;
+  // Stop the message being spoken if it has a lower priority than this one
+  interrupt?: boolean;
+  sessionId?: string;
+  // Queued messages from the same session with the same topic are replaced by this one
+  topic?: string;
+  // Drop the message if it has not started playing within this many milliseconds
+  ttlMs?: number;
+  // SSML messages are never truncated or split, so their length must be checked by the caller
+  format?: MessageFormat;
+  sound?: QueuedSound;
+  // Who is speaking, such as "Alex, backend repo"
+  announcement?: string;
+}
+
+export type MessageState = 'queued' | 'speaking' | 'spoken' | 'failed' | 'cancelled' | 'expired';
+
+// Why a message was cancelled
+export type CancelReason = 'cancelled' | 'replaced' | 'interrupted' | 'reset';
+
+export interface MessageRecord {
+  id: string;
+  state: MessageState;
+  message: string;
+  priority: MessagePriority;
+  sessionId?: string;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  reason?: CancelReason;
+  parentId?: string;
+  partIds?: string[];
+}
+
+// States a message never leaves
+const FINAL_STATES: MessageState[] = ['spoken', 'failed', 'cancelled', 'expired'];
+
+/**
+ * Check if a message state is final
+ */
+export function isFinalState(state: MessageState): boolean {
+  return FINAL_STATES.includes(state);
+}
+
+// Spoken after the last part of a long message that did not fit within the overall cap
+const SHORTENED_CUE = 'Message shortened.';
+
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3,
+};
+
+export interface MessageQueueOptions {
+  engine?: SpeechEngine;
+  // Suppress identical messages from the same session enqueued within this window
+  duplicateWindowMs?: number;
+  // Time to live for messages enqueued without their own ttlMs (0 keeps messages until spoken)
+  defaultTtlMs?: number;
+  // Number of messages whose lifecycle is remembered for getMessageStatus
+  historyLimit?: number;
+  // Split messages longer than maxMessageLength into sentences instead of truncating them
+  chunkLongMessages?: boolean;
+  // Overall length cap of a split message; the rest is dropped with a spoken cue
+  maxChunkedLength?: number;
+  // Pronunciations applied to each message just before it is spoken
+  lexicon?: Lexicon;
+  output?: OutputMode;
+  // Where rendered files are written and indexed; required unless output is "play"
+  archive?: AudioArchive;
+  // Plays rendered files when output is "both" or audio is cached
+  player?: AudioPlayer;
+  // Rendered audio reused for repeated messages when output is "play"
+  cache?: AudioCache;
 }
 
 export class MessageQueue {
   private queue: QueuedMessage[] = [];
   private isProcessing = false;
-  private currentProcess: ChildProcess | null = null;
+  private isPaused = false;
+  private currentMessage: QueuedMessage | null = null;
+  private stoppedMessage: QueuedMessage | null = null;
+  private pausedMessage: QueuedMessage | null = null;
   private maxMessageLength: number;
+  private engine: SpeechEngine;
+  private duplicateWindowMs: number;
+  private defaultTtlMs: number;
+  private recentMessages = new Map<string, QueuedMessage>();
+  private expiredCount = 0;
+  private history = new Map<string, MessageRecord>();
+  private historyLimit: number;
+  private completions = new Map<string, Array<(record: MessageRecord) => void>>();
+  private chunkLongMessages: boolean;
+  private maxChunkedLength: number;
+  private lexicon: Lexicon | undefined;
+  private output: OutputMode;
+  private archive: AudioArchive | undefined;
+  private player: AudioPlayer;
+  private cache: AudioCache | undefined;
+  private lastSpokenSessionId: string | undefined;
 
-  constructor(maxMessageLength = 500) {
+  constructor(maxMessageLength = 500, options: MessageQueueOptions = {}) {
     this.maxMessageLength = maxMessageLength;
+    this.engine = options.engine ?? new SayEngine();
+    this.duplicateWindowMs = options.duplicateWindowMs ?? 0;
+    this.defaultTtlMs = options.defaultTtlMs ?? 0;
+    this.historyLimit = options.historyLimit ?? 200;
+    this.chunkLongMessages = options.chunkLongMessages ?? false;
+    this.maxChunkedLength = options.maxChunkedLength ?? maxMessageLength * 4;
+    this.lexicon = options.lexicon;
+    this.output = options.output ?? 'play';
+    this.archive = options.archive;
+    this.player = options.player ?? new AudioPlayer();
+    this.cache = options.cache;
+
+    if (this.cache && (!this.engine.synthesize || !this.engine.audioFormat)) {
+      console.error(`The ${this.engine.name} engine cannot render audio files, so audio is not cached`);
+      this.cache = undefined;
+    }
+
+    if (this.output !== 'play') {
+      if (!this.engine.synthesize || !this.engine.audioFormat) {
+        throw new Error(`The ${this.engine.name} engine cannot render audio files`);
+      }
+      if (!this.archive) {
+        throw new Error('An audio archive is required to render audio files');
+      }
+    }
   }
 
   /**
-   * Add a message to the queue
+   * Add a message to the queue, ahead of any queued messages with a lower priority.
+   * A message with a topic replaces queued messages from the same session with that topic,
+   * and an exact duplicate within the duplicate window returns the earlier message instead.
+   * With chunking enabled, a long message is queued as one part per sentence.
    */
-  enqueue(message: string, voice?: string): QueuedMessage {
-    const truncatedMessage = this.truncateMessage(message);
+  enqueue(message: string, voice?: string, options: EnqueueOptions = {}): QueuedMessage {
+    const ssml = options.format === 'ssml';
+    const chunked = !ssml && this.chunkLongMessages && message.length > this.maxMessageLength;
+    const text = chunked || ssml ? message : this.truncateMessage(message);
+
+    const duplicate = this.findDuplicate(this.duplicateKey(text, options.sessionId, options.sound));
+    if (duplicate) {
+      return { ...duplicate, duplicate: true };
+    }
+
+    const timestamp = Date.now();
+    const ttlMs = options.ttlMs ?? this.defaultTtlMs;
     const queuedMessage: QueuedMessage = {
       id: this.generateId(),
-      message: truncatedMessage,
-      timestamp: Date.now(),
+      message: text,
+      timestamp,
+      priority: options.priority ?? 'normal',
       voice,
+      rate: options.rate,
+      pitch: options.pitch,
+      volume: options.volume,
+      sessionId: options.sessionId,
+      topic: options.topic,
+      expiresAt: ttlMs > 0 ? timestamp + ttlMs : undefined,
+      format: options.format,
+      sound: options.sound,
+      announcement: options.announcement,
     };
+    const parts = chunked ? this.splitMessage(queuedMessage) : [queuedMessage];
     
-    this.queue.push(queuedMessage);
+    this.record(queuedMessage);
+    if (chunked) {
+      parts.forEach(part => this.record(part));
+    }
+    if (!this.replaceTopic(queuedMessage, parts)) {
+      this.insertByPriority(parts);
+    }
+    this.rememberMessage(queuedMessage, text);
+
+    if (options.interrupt) {
+      this.preempt(queuedMessage);
+    }
     
     // Start processing if not already processing
     if (!this.isProcessing) {
@@ -40,38 +243,363 @@ export class MessageQueue {
   }
 
   /**
-   * Cancel a specific message by ID
+   * Cancel a specific message by ID, stopping it if it is being spoken.
+   * Cancelling a split message cancels all of its remaining parts.
    */
   cancel(messageId: string): boolean {
-    const index = this.queue.findIndex(msg => msg.id === messageId);
+    const messages = this.queue.filter(msg => msg.id === messageId || msg.parentId === messageId);
     
-    if (index !== -1) {
-      this.queue.splice(index, 1);
-      return true;
+    for (const message of messages) {
+      this.forgetMessage(message);
+      this.removeFromQueue(message);
+      this.updateRecord(message.id, { state: 'cancelled', reason: 'cancelled' });
+
+      if (message === this.currentMessage) {
+        this.stopCurrentPlayback();
+      }
     }
     
-    return false;
+    return messages.length > 0;
   }
 
   /**
    * Reset the entire queue and stop current playback
    */
   reset(): void {
+    for (const message of this.queue) {
+      this.updateRecord(message.id, { state: 'cancelled', reason: 'reset' });
+    }
     this.queue = [];
+    this.recentMessages.clear();
     this.stopCurrentPlayback();
   }
 
+  /**
+   * Pause playback, keeping queued messages. By default the current message
+   * finishes first; with immediate it is stopped and spoken again on resume.
+   */
+  pause(immediate = false): void {
+    this.isPaused = true;
+
+    if (immediate && this.currentMessage) {
+      this.pausedMessage = this.currentMessage;
+      this.stopCurrentPlayback();
+    }
+  }
+
+  /**
+   * Resume playback of the queue after a pause
+   */
+  resume(): void {
+    if (!this.isPaused) {
+      return;
+    }
+
+    this.isPaused = false;
+    if (!this.isProcessing) {
+      this.processQueue();
+    }
+  }
+
   /**
    * Get the current queue status
    */
-  getStatus(): { queueLength: number; isProcessing: boolean; queue: QueuedMessage[] } {
+  getStatus(): { queueLength: number; isProcessing: boolean; isPaused: boolean; queue: QueuedMessage[]; expiredCount: number; cache?: AudioCacheStats } {
     return {
       queueLength: this.queue.length,
       isProcessing: this.isProcessing,
+      isPaused: this.isPaused,
       queue: [...this.queue],
+      expiredCount: this.expiredCount,
+      cache: this.cache?.stats(),
     };
   }
 
+  /**
+   * Get the lifecycle record of a message by ID, if it is still in the history
+   */
+  getMessageStatus(messageId: string): MessageRecord | undefined {
+    const record = this.history.get(messageId);
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * Wait until a message reaches a final state (spoken, failed, cancelled or expired).
+   * After timeoutMs the promise resolves with the message's current, unfinished state.
+   */
+  waitFor(messageId: string, timeoutMs?: number): Promise<MessageRecord> {
+    const record = this.history.get(messageId);
+    if (!record) {
+      return Promise.reject(new Error(`Message ${messageId} not found`));
+    }
+    if (FINAL_STATES.includes(record.state)) {
+      return Promise.resolve({ ...record });
+    }
+
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      const complete = (finished: MessageRecord) => {
+        clearTimeout(timer);
+        resolve(finished);
+      };
+
+      const waiters = this.completions.get(messageId) ?? [];
+      waiters.push(complete);
+      this.completions.set(messageId, waiters);
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          const remaining = (this.completions.get(messageId) ?? []).filter(waiter => waiter !== complete);
+          if (remaining.length > 0) {
+            this.completions.set(messageId, remaining);
+          } else {
+            this.completions.delete(messageId);
+          }
+          resolve({ ...(this.history.get(messageId) ?? record) });
+        }, timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Start tracking the lifecycle of a newly queued message, forgetting the
+   * oldest finished messages once the history is full
+   */
+  private record(message: QueuedMessage): void {
+    this.history.set(message.id, {
+      id: message.id,
+      state: 'queued',
+      message: message.message,
+      priority: message.priority,
+      sessionId: message.sessionId,
+      queuedAt: message.timestamp,
+      parentId: message.parentId,
+      partIds: message.partIds,
+    });
+
+    for (const [id, record] of this.history) {
+      if (this.history.size <= this.historyLimit) {
+        break;
+      }
+      // Keep finished parts until their whole message has finished
+      const parent = record.parentId ? this.history.get(record.parentId) : undefined;
+      if (FINAL_STATES.includes(record.state) && (!parent || FINAL_STATES.includes(parent.state))) {
+        this.history.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Update a message's lifecycle record. Messages in a final state are not changed.
+   */
+  private updateRecord(messageId: string, update: Partial<MessageRecord>): void {
+    const record = this.history.get(messageId);
+    if (!record || FINAL_STATES.includes(record.state)) {
+      return;
+    }
+
+    Object.assign(record, update);
+    if (update.state && FINAL_STATES.includes(update.state)) {
+      record.finishedAt = Date.now();
+
+      // Resolve everyone waiting for this message to finish
+      const waiters = this.completions.get(messageId) ?? [];
+      this.completions.delete(messageId);
+      waiters.forEach(waiter => waiter({ ...record }));
+    }
+
+    if (record.parentId) {
+      this.updateParentRecord(record.parentId);
+    }
+  }
+
+  /**
+   * Derive the state of a split message from its parts. It is speaking once a part
+   * has started, and once every part has finished it is spoken, or takes the
+   * state of the first part that was not spoken.
+   */
+  private updateParentRecord(parentId: string): void {
+    const parent = this.history.get(parentId);
+    if (!parent?.partIds) {
+      return;
+    }
+
+    const parts = parent.partIds
+      .map(id => this.history.get(id))
+      .filter((part): part is MessageRecord => part !== undefined);
+
+    if (parts.every(part => FINAL_STATES.includes(part.state))) {
+      const unspoken = parts.find(part => part.state !== 'spoken');
+      this.updateRecord(parentId, unspoken
+        ? { state: unspoken.state, error: unspoken.error, reason: unspoken.reason }
+        : { state: 'spoken' });
+    } else if (parent.state === 'queued' && parts.some(part => part.state === 'speaking')) {
+      this.updateRecord(parentId, { state: 'speaking', startedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Split a long message into one part per sentence, capping its overall length.
+   * The message's text and partIds are updated to what will be spoken.
+   */
+  private splitMessage(message: QueuedMessage): QueuedMessage[] {
+    const { chunks, shortened } = capChunks(
+      splitIntoChunks(message.message, this.maxMessageLength),
+      this.maxChunkedLength
+    );
+    if (shortened) {
+      chunks.push(SHORTENED_CUE);
+    }
+
+    const parts = chunks.map((chunk, index): QueuedMessage => ({
+      ...message,
+      id: `${message.id}.${index + 1}`,
+      message: chunk,
+      parentId: message.id,
+      // The sound introduces the whole message, so only the first part plays it
+      sound: index === 0 ? message.sound : undefined,
+    }));
+
+    message.message = chunks.join(' ');
+    message.partIds = parts.map(part => part.id);
+    return parts;
+  }
+
+  /**
+   * Replace queued messages that share the message's session and topic with
+   * the message's parts. The message being spoken is never replaced. Returns
+   * true if the parts took the place of a replaced message of the same priority.
+   */
+  private replaceTopic(message: QueuedMessage, parts: QueuedMessage[]): boolean {
+    if (message.topic === undefined) {
+      return false;
+    }
+
+    const replaced = this.queue.filter(queued =>
+      queued !== this.currentMessage &&
+      queued.topic === message.topic &&
+      queued.sessionId === message.sessionId
+    );
+    if (replaced.length === 0) {
+      return false;
+    }
+
+    message.replaces = [...new Set(replaced.map(queued => queued.parentId ?? queued.id))];
+
+    // Keep the position already earned in the queue when the priority is unchanged
+    const [first, ...rest] = replaced;
+    replaced.forEach(queued => {
+      this.forgetMessage(queued);
+      this.updateRecord(queued.id, { state: 'cancelled', reason: 'replaced' });
+    });
+    rest.forEach(queued => this.removeFromQueue(queued));
+    if (first.priority === message.priority) {
+      this.queue.splice(this.queue.indexOf(first), 1, ...parts);
+      return true;
+    }
+
+    this.removeFromQueue(first);
+    return false;
+  }
+
+  /**
+   * Find an identical message from the same session enqueued within the duplicate window
+   */
+  private findDuplicate(key: string): QueuedMessage | undefined {
+    if (this.duplicateWindowMs <= 0) {
+      return undefined;
+    }
+
+    // Forget messages that have left the window
+    const cutoff = Date.now() - this.duplicateWindowMs;
+    for (const [key, recent] of this.recentMessages) {
+      if (recent.timestamp < cutoff) {
+        this.recentMessages.delete(key);
+      }
+    }
+
+    return this.recentMessages.get(key);
+  }
+
+  /**
+   * Remember a message for duplicate suppression under the text it was enqueued with
+   */
+  private rememberMessage(message: QueuedMessage, text: string): void {
+    if (this.duplicateWindowMs > 0) {
+      this.recentMessages.set(this.duplicateKey(text, message.sessionId, message.sound), message);
+    }
+  }
+
+  /**
+   * Stop treating a message that will never be fully spoken as a duplicate candidate.
+   * For a part of a split message, the whole message is forgotten.
+   */
+  private forgetMessage(message: QueuedMessage): void {
+    const id = message.parentId ?? message.id;
+    for (const [key, recent] of this.recentMessages) {
+      if (recent.id === id) {
+        this.recentMessages.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Key identifying identical messages, with the same sound, from the same session
+   */
+  private duplicateKey(message: string, sessionId?: string, sound?: QueuedSound): string {
+    return `${sessionId ?? ''}\u0000${sound?.name ?? ''}\u0000${message}`;
+  }
+
+  /**
+   * Insert the parts of a message after every message of the same or higher priority.
+   * The message being spoken stays at the head of the queue.
+   */
+  private insertByPriority(parts: QueuedMessage[]): void {
+    const rank = PRIORITY_RANK[parts[0].priority];
+    const start = this.currentMessage && this.queue[0] === this.currentMessage ? 1 : 0;
+    let index = this.queue.length;
+
+    for (let i = start; i < this.queue.length; i++) {
+      if (PRIORITY_RANK[this.queue[i].priority] < rank) {
+        index = i;
+        break;
+      }
+    }
+
+    this.queue.splice(index, 0, ...parts);
+  }
+
+  /**
+   * Stop the message being spoken if it has a lower priority than the given message.
+   * The interrupted message, including any remaining parts, is dropped rather than repeated.
+   */
+  private preempt(message: QueuedMessage): void {
+    const current = this.currentMessage;
+    if (!current || PRIORITY_RANK[current.priority] >= PRIORITY_RANK[message.priority]) {
+      return;
+    }
+
+    const remainingParts = current.parentId
+      ? this.queue.filter(queued => queued !== current && queued.parentId === current.parentId)
+      : [];
+    for (const interrupted of [current, ...remainingParts]) {
+      this.forgetMessage(interrupted);
+      this.removeFromQueue(interrupted);
+      this.updateRecord(interrupted.id, { state: 'cancelled', reason: 'interrupted' });
+    }
+    this.stopCurrentPlayback();
+  }
+
+  /**
+   * Remove a message from the queue if it is still there
+   */
+  private removeFromQueue(message: QueuedMessage): void {
+    const index = this.queue.indexOf(message);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
   /**
    * Truncate message to max length
    */
@@ -94,58 +622,175 @@ export class MessageQueue {
    * Process the queue sequentially
    */
   private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0) {
+    if (this.isProcessing || this.isPaused || this.queue.length === 0) {
       return;
     }
 
     this.isProcessing = true;
 
-    while (this.queue.length > 0) {
+    while (this.queue.length > 0 && !this.isPaused) {
       const message = this.queue[0];
+
+      // Drop messages that are no longer relevant by the time their turn comes
+      if (message.expiresAt !== undefined && Date.now() >= message.expiresAt) {
+        this.queue.shift();
+        this.forgetMessage(message);
+        this.expiredCount++;
+        this.updateRecord(message.id, { state: 'expired' });
+        continue;
+      }
+
+      this.currentMessage = message;
+      this.updateRecord(message.id, { state: 'speaking', startedAt: Date.now() });
+      if (message.parentId) {
+        // The time to live only applies until a split message starts being spoken
+        this.queue
+          .filter(queued => queued.parentId === message.parentId)
+          .forEach(queued => { queued.expiresAt = undefined; });
+      }
+      let stopped = false;
       
       try {
-        await this.speak(message.message, message.voice);
-        this.queue.shift(); // Remove the processed message
+        await this.speak(message);
+        this.updateRecord(message.id, { state: 'spoken' });
       } catch (error) {
-        console.error('Error speaking message:', error);
-        this.queue.shift(); // Remove the failed message to continue processing
+        // Messages stopped on purpose by reset, preemption or pause are not errors
+        stopped = this.stoppedMessage === message;
+        if (!stopped) {
+          console.error('Error speaking message:', error);
+          this.updateRecord(message.id, {
+            state: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      if (stopped && this.pausedMessage === message) {
+        // Keep a message stopped by an immediate pause at the head of the queue to speak it again
+        this.updateRecord(message.id, { state: 'queued', startedAt: undefined });
+      } else {
+        // Remove the processed message, which may already be gone if it was cancelled or preempted
+        this.removeFromQueue(message);
       }
+      this.currentMessage = null;
+      this.stoppedMessage = null;
+      this.pausedMessage = null;
     }
 
     this.isProcessing = false;
   }
 
   /**
-   * Speak a message using the 'say' command (macOS)
+   * Play the message's sound, then speak its text using the configured speech engine.
+   * Sounds are skipped when messages are only rendered to files, or the engine is silent.
    */
-  private speak(message: string, voice?: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const args = voice ? ['-v', voice, message] : [message];
-      this.currentProcess = spawn('say', args);
+  private async speak(message: QueuedMessage): Promise<void> {
+    if (message.sound && this.output !== 'file' && !this.engine.silent) {
+      await this.player.play(message.sound.file);
+      if (this.stoppedMessage === message) {
+        throw new Error('Playback was stopped');
+      }
+    }
+    if (!message.message) {
+      return;
+    }
 
-      this.currentProcess.on('close', (code) => {
-        this.currentProcess = null;
-        if (code === 0) {
-          resolve();
-        } else {
-          reject(new Error(`say command exited with code ${code}`));
-        }
-      });
+    let text = this.announce(message);
+    const lexicon = this.lexicon;
+    if (lexicon) {
+      text = message.format === 'ssml'
+        ? mapSsmlText(text, content => lexicon.apply(content))
+        : lexicon.apply(text);
+    }
+
+    const options: SpeechOptions = {
+      voice: message.voice,
+      rate: message.rate,
+      pitch: message.pitch,
+      volume: message.volume,
+      format: message.format,
+    };
 
-      this.currentProcess.on('error', (error) => {
-        this.currentProcess = null;
-        reject(error);
-      });
+    if (this.output !== 'play') {
+      return this.render(message, text, options);
+    }
+    return this.cache
+      ? this.playCached(message, text, options)
+      : this.engine.speak(text, options);
+  }
+
+  /**
+   * Prefix the text with the message's announcement if the previous message
+   * spoken came from a different session
+   */
+  private announce(message: QueuedMessage): string {
+    const announced = message.announcement !== undefined && message.sessionId !== this.lastSpokenSessionId;
+    this.lastSpokenSessionId = message.sessionId;
+    if (!announced) {
+      return message.message;
+    }
+
+    const prefix = `${message.announcement}: `;
+    return message.format === 'ssml'
+      ? prependSsmlText(message.message, prefix)
+      : prefix + message.message;
+  }
+
+  /**
+   * Play a message from the audio cache, rendering and caching it first on a miss
+   */
+  private async playCached(message: QueuedMessage, text: string, options: SpeechOptions): Promise<void> {
+    const cache = this.cache!;
+    const key = cache.key(this.engine.name, text, options);
+    let file = cache.lookup(key);
+
+    if (!file) {
+      const renderedFile = cache.renderPathFor(key, this.engine.audioFormat!);
+      try {
+        await this.engine.synthesize!(text, renderedFile, options);
+      } catch (error) {
+        cache.discard(renderedFile);
+        throw error;
+      }
+      file = cache.store(key, renderedFile);
+    }
+
+    if (this.stoppedMessage === message) {
+      throw new Error('Playback was stopped');
+    }
+    await this.player.play(file);
+  }
+
+  /**
+   * Render a message to an audio file in the archive, then play it if output is "both"
+   */
+  private async render(message: QueuedMessage, text: string, options: SpeechOptions): Promise<void> {
+    const file = this.archive!.pathFor(message.id, this.engine.audioFormat!);
+    await this.engine.synthesize!(text, file, options);
+
+    this.archive!.add({
+      messageId: message.id,
+      file,
+      text: message.message,
+      sessionId: message.sessionId,
+      voice: message.voice,
+      timestamp: Date.now(),
     });
+
+    if (this.output === 'both') {
+      if (this.stoppedMessage === message) {
+        throw new Error('Playback was stopped');
+      }
+      await this.player.play(file);
+    }
   }
 
   /**
    * Stop the current playback
    */
   private stopCurrentPlayback(): void {
-    if (this.currentProcess) {
-      this.currentProcess.kill();
-      this.currentProcess = null;
-    }
+    this.stoppedMessage = this.currentMessage;
+    this.engine.stop();
+    this.player.stop();
   }
 }
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { fillPlaceholders, BUILT_IN_PROFILES, DEFAULT_INSTRUCTIONS } from './prompts';
+
+describe('prompts', () => {
+  const values = { name: 'Ada', voice: 'Karen', sessionId: 'session-1', verbosity: 'Speak on errors.' };
+
+  describe('fillPlaceholders', () => {
+    it('should replace known placeholders and keep unknown ones', () => {
+      expect(fillPlaceholders('I am {name} with {voice} in {sessionId}, {unknown}', values))
+        .toBe('I am Ada with Karen in session-1, {unknown}');
+    });
+
+    it('should insert the verbosity rules into the default instructions', () => {
+      const instructions = fillPlaceholders(DEFAULT_INSTRUCTIONS, { ...values, verbosity: BUILT_IN_PROFILES['questions-only'] });
+
+      expect(instructions).toContain('Only speak when you need the user.');
+      expect(instructions).toContain('You\'re using the voice "Karen"');
+      expect(instructions).toContain('"session-1"');
+      expect(instructions).not.toMatch(/\{\w+\}/);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+// Rules for when a session speaks, substituted for {verbosity} in the instructions
+export const BUILT_IN_PROFILES: Record<string, string> = {
+  'chatty': `You MUST start speaking NOW for every upcoming instruction and action.
+
+- **Speak about everything**: Use the 'speak' tool to verbally communicate all actions you're taking, so the user can stay informed without reading the screen.
+- **Always speak when prompting**: Whenever you ask a question or wait for a response, always speak it aloud. The user might be busy with other tasks and needs to hear the prompts rather than read them.
+- **Regular updates**: Keep the user informed of progress and next steps through speech, making it easier to multitask.
+
+Do not wait for reminders - speak proactively for all your work.`,
+  'questions-only': `Only speak when you need the user.
+
+- **Speak when prompting**: Whenever you ask a question, need a decision or approval, or wait for a response, speak it aloud with the 'speak' tool. The user might be busy with other tasks and needs to hear the prompts rather than read them.
+- **Stay silent otherwise**: Do not speak about routine actions, progress or results.`,
+  'errors-only': `Only speak when something goes wrong.
+
+- **Speak about failures**: Use the 'speak' tool when a command fails, tests break, or you hit an error you cannot resolve, so the user notices without watching the screen.
+- **Stay silent otherwise**: Do not speak about routine actions, progress, successful results or questions.`,
+};
+
+// Profile used by sessions that do not choose one
+export const DEFAULT_PROFILE = 'chatty';
+
+export const DEFAULT_INTRODUCTION = "Hello! I'm {name}, your voice assistant through the Talkback MCP server.";
+
+export const DEFAULT_INSTRUCTIONS = `The speech feature is now ENABLED.
+
+When to speak:
+
+{verbosity}
+
+Here are your behavioral guidelines:
+
+1. **Stay concise**: Keep spoken messages brief and to the point. Leave detailed information and technical output in the terminal for later review.
+
+2. **Multi-session support**: You're using the voice "{voice}" so the user can distinguish you from other sessions. Pass the session ID "{sessionId}" to every speech tool. All sessions share the same queue to avoid overlapping speech.`;
+
+export interface PromptValues {
+  name: string;
+  voice: string;
+  sessionId: string;
+  verbosity: string;
+}
+
+/**
+ * Replace {placeholders} in a prompt, leaving unknown ones as they are
+ */
+export function fillPlaceholders(template: string, values: PromptValues): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key as keyof PromptValues] : placeholder
+  );
+}
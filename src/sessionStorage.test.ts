@@ -1,27 +1,27 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { SessionStorage, Session } from './sessionStorage';
-import { existsSync, rmSync } from 'fs';
+import { existsSync, rmSync, mkdtempSync, writeFileSync, readdirSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
+// No process has this ID, so files and locks carrying it were left by a dead process
+const DEAD_PID = 99999999;
+
 describe('SessionStorage', () => {
   let storage: SessionStorage;
-  const storageDir = join(tmpdir(), '.talkback-sessions');
-  const storageFile = join(storageDir, `sessions-${process.pid}.json`);
+  let baseDir: string;
+  let storageDir: string;
+  let storageFile: string;
 
   beforeEach(() => {
-    // Clean up any existing storage before each test
-    if (existsSync(storageFile)) {
-      rmSync(storageFile);
-    }
-    storage = new SessionStorage();
+    baseDir = mkdtempSync(join(tmpdir(), 'talkback-sessions-'));
+    storageDir = join(baseDir, 'sessions');
+    storageFile = join(storageDir, 'sessions.json');
+    storage = new SessionStorage(storageDir);
   });
 
   afterEach(() => {
-    // Clean up after tests
-    if (existsSync(storageFile)) {
-      rmSync(storageFile);
-    }
+    rmSync(baseDir, { recursive: true, force: true });
   });
 
   describe('initialization', () => {
@@ -111,7 +111,7 @@ describe('SessionStorage', () => {
       storage.set('loaded-session', session);
 
       // Create a new storage instance
-      const newStorage = new SessionStorage();
+      const newStorage = new SessionStorage(storageDir);
       const retrieved = newStorage.get('loaded-session');
 
       expect(retrieved).toEqual(session);
@@ -136,7 +136,7 @@ describe('SessionStorage', () => {
       storage.set('session-b', session2);
 
       // Create a new storage instance to test persistence
-      const newStorage = new SessionStorage();
+      const newStorage = new SessionStorage(storageDir);
       
       expect(newStorage.get('session-a')).toEqual(session1);
       expect(newStorage.get('session-b')).toEqual(session2);
@@ -153,22 +153,156 @@ describe('SessionStorage', () => {
       storage.set('voice-test-session', session);
 
       // Create a new storage instance
-      const newStorage = new SessionStorage();
+      const newStorage = new SessionStorage(storageDir);
       const retrieved = newStorage.get('voice-test-session');
 
       expect(retrieved?.voice).toBe('Fiona');
     });
   });
 
+  describe('shared storage', () => {
+    const session: Session = {
+      id: 'shared-session',
+      name: 'Drew',
+      voice: 'Tessa',
+      enabled: true,
+    };
+
+    it('should keep sessions in one file that does not depend on the process', () => {
+      storage.set('shared-session', session);
+
+      expect(readdirSync(storageDir)).toEqual(['sessions.json']);
+      expect(JSON.parse(readFileSync(storageFile, 'utf-8'))).toEqual({ global: { 'shared-session': session } });
+    });
+
+    it('should see sessions written by another instance', () => {
+      const other = new SessionStorage(storageDir);
+      expect(storage.has('shared-session')).toBe(false);
+
+      other.set('shared-session', session);
+
+      expect(storage.get('shared-session')).toEqual(session);
+    });
+
+    it('should keep the sessions of another instance when saving', () => {
+      const other = new SessionStorage(storageDir);
+      storage.has('shared-session');
+      other.set('shared-session', session);
+
+      storage.set('session-b', { ...session, id: 'session-b' });
+
+      expect(new SessionStorage(storageDir).getAll().size).toBe(2);
+    });
+
+    it('should keep sessions of different scopes apart', () => {
+      const projectA = new SessionStorage(storageDir, '/work/a');
+      const projectB = new SessionStorage(storageDir, '/work/b');
+
+      projectA.set('shared-session', session);
+
+      expect(projectA.get('shared-session')).toEqual(session);
+      expect(projectB.has('shared-session')).toBe(false);
+      expect(storage.has('shared-session')).toBe(false);
+      expect(storage.getAllScopes()).toEqual([session]);
+    });
+
+    it('should only create a session that no instance has created', () => {
+      const other = new SessionStorage(storageDir);
+      other.set('shared-session', session);
+
+      const created = storage.getOrCreate('shared-session', () => ({ ...session, name: 'Other' }));
+
+      expect(created).toEqual(session);
+    });
+
+    it('should take over a lock left by a dead process', () => {
+      writeFileSync(`${storageFile}.lock`, String(DEAD_PID));
+
+      storage.set('shared-session', session);
+
+      expect(new SessionStorage(storageDir).get('shared-session')).toEqual(session);
+      expect(existsSync(`${storageFile}.lock`)).toBe(false);
+    });
+
+    it('should import and delete the files of processes that have exited', () => {
+      const orphan: Session = { id: 'orphan-session', name: 'Sage', voice: 'Moira', enabled: true };
+      writeFileSync(join(storageDir, `sessions-${DEAD_PID}.json`), JSON.stringify([orphan]));
+      writeFileSync(join(storageDir, `sessions.json.${DEAD_PID}.tmp`), '{');
+
+      const restarted = new SessionStorage(storageDir);
+
+      expect(restarted.get('orphan-session')).toEqual(orphan);
+      expect(readdirSync(storageDir)).toEqual(['sessions.json']);
+    });
+
+    it('should leave the files of running processes alone', () => {
+      const running = join(storageDir, `sessions-${process.pid}.json`);
+      writeFileSync(running, '[]');
+
+      new SessionStorage(storageDir);
+
+      expect(existsSync(running)).toBe(true);
+    });
+  });
+
+  describe('lifecycle', () => {
+    const HOUR = 60 * 60 * 1000;
+    const now = Date.UTC(2026, 0, 1);
+
+    const createSession = (id: string, lastActiveAt?: number): Session => ({
+      id,
+      name: 'Robin',
+      voice: `voice-${id}`,
+      enabled: true,
+      lastActiveAt,
+    });
+
+    it('should delete a session', () => {
+      storage.set('session1', createSession('session1'));
+
+      expect(storage.delete('session1')).toBe(true);
+      expect(storage.delete('session1')).toBe(false);
+      expect(new SessionStorage(storageDir).has('session1')).toBe(false);
+    });
+
+    it('should remove sessions idle for longer than the limit', () => {
+      storage.set('idle', createSession('idle', now - 3 * HOUR));
+      storage.set('active', createSession('active', now - HOUR));
+
+      const removed = storage.expire({ idleMs: 2 * HOUR, maxSessions: 0, now });
+
+      expect(removed.map(session => session.id)).toEqual(['idle']);
+      expect([...storage.getAll().keys()]).toEqual(['active']);
+    });
+
+    it('should remove the least recently active sessions over the cap in every scope', () => {
+      const project = new SessionStorage(storageDir, '/work/a');
+      storage.set('oldest', createSession('oldest', now - 3 * HOUR));
+      project.set('older', createSession('older', now - 2 * HOUR));
+      storage.set('newest', createSession('newest', now));
+
+      const removed = storage.expire({ idleMs: 0, maxSessions: 1, now });
+
+      expect(removed.map(session => session.id)).toEqual(['oldest']);
+      expect([...storage.getAll().keys()]).toEqual(['newest']);
+      expect(project.getAll().size).toBe(0);
+    });
+
+    it('should count sessions without recorded activity as active now', () => {
+      storage.set('legacy', createSession('legacy'));
+
+      expect(storage.expire({ idleMs: HOUR, maxSessions: 0, now })).toEqual([]);
+      expect(storage.get('legacy')?.lastActiveAt).toBe(now);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle corrupt storage files gracefully', () => {
-      const { writeFileSync } = require('fs');
-      
       // Write invalid JSON
       writeFileSync(storageFile, 'invalid json content', 'utf-8');
 
       // Should not throw, but start with empty sessions
-      const newStorage = new SessionStorage();
+      const newStorage = new SessionStorage(storageDir);
       expect(newStorage.has('any-session')).toBe(false);
     });
   });
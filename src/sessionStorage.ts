@@ -1,42 +1,206 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync, readdirSync, rmSync, statSync, openSync, writeSync, closeSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
+// Directory used when no session storage location is configured
+export const DEFAULT_SESSION_DIR = join(tmpdir(), '.talkback-sessions');
+
+// Scope of sessions shared by all projects
+export const GLOBAL_SCOPE = 'global';
+
+// Whether session IDs are shared by all projects, or each working directory has its own sessions
+export const SESSION_SCOPES = ['global', 'project'] as const;
+export type SessionScope = typeof SESSION_SCOPES[number];
+
 export interface Session {
   id: string;
   name: string;
   voice: string;
   enabled: boolean;
+  // Speaking rate in words per minute
+  rate?: number;
+  // Pitch from 0 to 100, where 50 is the voice's normal pitch
+  pitch?: number;
+  // Volume from 0 to 100, where 100 is the engine's normal volume
+  volume?: number;
+  // Spoken after the name when the session is announced, such as the project name
+  label?: string;
+  // Announce the session before its messages when the speaker changes; unset uses the server default
+  announce?: boolean;
+  // Profile of rules for when the session speaks; unset uses the server default
+  profile?: string;
+  // When the session last used a tool, in milliseconds since the epoch
+  lastActiveAt?: number;
 }
 
+export interface ExpiryOptions {
+  // Sessions inactive for longer than this are removed (0 disables)
+  idleMs: number;
+  // Most sessions kept across all scopes; the least recently active are removed first (0 disables)
+  maxSessions: number;
+  now?: number;
+}
+
+// Sessions by scope, then by session ID
+type SessionsFile = Record<string, Record<string, Session>>;
+
+const SESSIONS_FILE = 'sessions.json';
+
+// Files of earlier versions, which kept one file per server process
+const PID_FILE_PATTERN = /^sessions-(\d+)\.json$/;
+
+// Temporary files of writes interrupted by a crash
+const TEMP_FILE_PATTERN = /^sessions\.json\.(\d+)\.tmp$/;
+
+// A lock held longer than this is left over from a hung or crashed process
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 10;
+
 /**
- * Session storage manager that persists sessions to the filesystem
- * using the process PID to ensure session consistency per process
+ * Session storage that persists sessions by ID in one file shared by every
+ * server process, so a session keeps its name and voice across restarts.
+ * Sessions can be scoped, e.g. to a project directory, so the same ID in
+ * another scope is another session.
  */
 export class SessionStorage {
   private readonly storageDir: string;
   private readonly storageFile: string;
-  private sessions: Map<string, Session>;
-
-  constructor() {
-    // Use tmpdir with process PID to ensure unique storage per process
-    this.storageDir = join(tmpdir(), '.talkback-sessions');
-    this.storageFile = join(this.storageDir, `sessions-${process.pid}.json`);
-    this.sessions = new Map<string, Session>();
-    
-    // Ensure storage directory exists
-    this.ensureStorageDirectory();
-    
-    // Load existing sessions from disk
+  private readonly lockFile: string;
+  private readonly scope: string;
+  private sessions = new Map<string, Session>();
+  // Sessions of every scope, which share the speech queue
+  private allSessions: Session[] = [];
+  // Identity of the file when it was last read, to notice writes by other processes
+  private loadedVersion: string | undefined;
+
+  constructor(storageDir: string = DEFAULT_SESSION_DIR, scope: string = GLOBAL_SCOPE) {
+    this.storageDir = storageDir;
+    this.storageFile = join(storageDir, SESSIONS_FILE);
+    this.lockFile = `${this.storageFile}.lock`;
+    this.scope = scope;
+
+    mkdirSync(storageDir, { recursive: true });
+    this.cleanUpOrphans();
     this.load();
   }
 
   /**
-   * Ensure the storage directory exists
+   * Get a session by ID
+   */
+  get(sessionId: string): Session | undefined {
+    this.refresh();
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Check if a session exists
+   */
+  has(sessionId: string): boolean {
+    this.refresh();
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Set or update a session
    */
-  private ensureStorageDirectory(): void {
-    if (!existsSync(this.storageDir)) {
-      mkdirSync(this.storageDir, { recursive: true });
+  set(sessionId: string, session: Session): void {
+    this.sessions.set(sessionId, session);
+    this.update(data => {
+      (data[this.scope] ??= {})[sessionId] = session;
+    });
+  }
+
+  /**
+   * Get a session, creating it if no process has stored it yet
+   */
+  getOrCreate(sessionId: string, create: () => Session): Session {
+    const existing = this.get(sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    // Another process may have created it since it was read
+    this.update(data => {
+      const sessions = (data[this.scope] ??= {});
+      sessions[sessionId] ??= create();
+    });
+    return this.sessions.get(sessionId) ?? create();
+  }
+
+  /**
+   * Delete a session, returning whether it existed
+   */
+  delete(sessionId: string): boolean {
+    let deleted = false;
+    this.update(data => {
+      const sessions = data[this.scope];
+      if (sessions && Object.prototype.hasOwnProperty.call(sessions, sessionId)) {
+        delete sessions[sessionId];
+        deleted = true;
+      }
+    });
+    return deleted;
+  }
+
+  /**
+   * Remove idle sessions and the least recently active sessions over the cap,
+   * in every scope. Returns the removed sessions of this storage's scope.
+   */
+  expire({ idleMs, maxSessions, now = Date.now() }: ExpiryOptions): Session[] {
+    const removed: Session[] = [];
+    this.update(data => {
+      const entries: { scope: string; id: string; session: Session }[] = [];
+      for (const [scope, sessions] of Object.entries(data)) {
+        for (const [id, session] of Object.entries(sessions)) {
+          // Sessions saved before activity was tracked count as active now
+          session.lastActiveAt ??= now;
+          entries.push({ scope, id, session });
+        }
+      }
+
+      entries.sort((a, b) => b.session.lastActiveAt! - a.session.lastActiveAt!);
+      entries.forEach(({ scope, id, session }, index) => {
+        const idle = idleMs > 0 && now - session.lastActiveAt! > idleMs;
+        const overCap = maxSessions > 0 && index >= maxSessions;
+        if (idle || overCap) {
+          delete data[scope][id];
+          if (scope === this.scope) {
+            removed.push(session);
+          }
+        }
+      });
+
+      for (const scope of Object.keys(data)) {
+        if (Object.keys(data[scope]).length === 0) {
+          delete data[scope];
+        }
+      }
+    });
+    return removed;
+  }
+
+  /**
+   * Get all sessions
+   */
+  getAll(): Map<string, Session> {
+    this.refresh();
+    return this.sessions;
+  }
+
+  /**
+   * Get the sessions of every scope, not only this storage's
+   */
+  getAllScopes(): Session[] {
+    this.refresh();
+    return this.allSessions;
+  }
+
+  /**
+   * Reload the sessions if another process has written them since they were read
+   */
+  private refresh(): void {
+    if (this.fileVersion() !== this.loadedVersion) {
+      this.load();
     }
   }
 
@@ -44,57 +208,170 @@ export class SessionStorage {
    * Load sessions from disk
    */
   private load(): void {
+    this.loadedVersion = this.fileVersion();
     try {
-      if (existsSync(this.storageFile)) {
-        const data = readFileSync(this.storageFile, 'utf-8');
-        const sessionsArray = JSON.parse(data) as Session[];
-        this.sessions = new Map(sessionsArray.map(s => [s.id, s]));
-      }
+      this.useSessions(this.readFile());
     } catch (error) {
       // If there's an error loading, start with empty sessions
       console.error('Error loading sessions from disk:', error);
       this.sessions = new Map<string, Session>();
+      this.allSessions = [];
     }
   }
 
   /**
-   * Save sessions to disk
+   * Change the stored sessions while holding the lock, so concurrent
+   * processes do not overwrite each other's changes
    */
-  private save(): void {
+  private update(change: (data: SessionsFile) => void): void {
     try {
-      const sessionsArray = Array.from(this.sessions.values());
-      writeFileSync(this.storageFile, JSON.stringify(sessionsArray, null, 2), 'utf-8');
+      this.withLock(() => {
+        let data: SessionsFile;
+        try {
+          data = this.readFile();
+        } catch {
+          // Replace a corrupt file rather than failing every write
+          data = {};
+        }
+        change(data);
+        this.writeFile(data);
+        this.useSessions(data);
+        this.loadedVersion = this.fileVersion();
+      });
     } catch (error) {
       console.error('Error saving sessions to disk:', error);
     }
   }
 
+  private readFile(): SessionsFile {
+    if (!existsSync(this.storageFile)) {
+      return {};
+    }
+    return JSON.parse(readFileSync(this.storageFile, 'utf-8')) as SessionsFile;
+  }
+
   /**
-   * Get a session by ID
+   * Write through a temporary file, so readers never see a partly written file
    */
-  get(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
+  private writeFile(data: SessionsFile): void {
+    const tempFile = `${this.storageFile}.${process.pid}.tmp`;
+    writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+    renameSync(tempFile, this.storageFile);
+  }
+
+  private useSessions(data: SessionsFile): void {
+    this.sessions = new Map(Object.entries(data[this.scope] ?? {}));
+    this.allSessions = Object.values(data).flatMap(sessions => Object.values(sessions));
   }
 
   /**
-   * Check if a session exists
+   * Identity of the sessions file, which changes with every write since writes replace the file
    */
-  has(sessionId: string): boolean {
-    return this.sessions.has(sessionId);
+  private fileVersion(): string | undefined {
+    try {
+      const stats = statSync(this.storageFile);
+      return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
-   * Set or update a session
+   * Run a function while holding the lock file, taking over locks left by dead processes
    */
-  set(sessionId: string, session: Session): void {
-    this.sessions.set(sessionId, session);
-    this.save();
+  private withLock(run: () => void): void {
+    for (;;) {
+      try {
+        const fd = openSync(this.lockFile, 'wx');
+        writeSync(fd, String(process.pid));
+        closeSync(fd);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (this.isLockStale()) {
+        rmSync(this.lockFile, { force: true });
+      } else {
+        sleep(LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      run();
+    } finally {
+      rmSync(this.lockFile, { force: true });
+    }
+  }
+
+  private isLockStale(): boolean {
+    try {
+      const holder = Number(readFileSync(this.lockFile, 'utf-8'));
+      if (holder > 0 && !isProcessAlive(holder)) {
+        return true;
+      }
+      return Date.now() - statSync(this.lockFile).mtimeMs > LOCK_TIMEOUT_MS;
+    } catch {
+      // Released while we looked, so try to take it again
+      return false;
+    }
   }
 
   /**
-   * Get all sessions
+   * Import the sessions of per-process files left by servers that have exited,
+   * then delete those files along with interrupted writes
    */
-  getAll(): Map<string, Session> {
-    return this.sessions;
+  private cleanUpOrphans(): void {
+    let names: string[];
+    try {
+      names = readdirSync(this.storageDir);
+    } catch (error) {
+      console.error('Error cleaning up session files:', error);
+      return;
+    }
+
+    const orphans = names.filter(name => {
+      const match = name.match(PID_FILE_PATTERN) ?? name.match(TEMP_FILE_PATTERN);
+      return match !== null && Number(match[1]) !== process.pid && !isProcessAlive(Number(match[1]));
+    });
+    if (orphans.length === 0) {
+      return;
+    }
+
+    this.update(data => {
+      const sessions = (data[GLOBAL_SCOPE] ??= {});
+      for (const name of orphans) {
+        const file = join(this.storageDir, name);
+        if (PID_FILE_PATTERN.test(name)) {
+          try {
+            for (const session of JSON.parse(readFileSync(file, 'utf-8')) as Session[]) {
+              sessions[session.id] ??= session;
+            }
+          } catch {
+            // Nothing can be recovered from a corrupt file
+          }
+        }
+        rmSync(file, { force: true });
+      }
+    });
   }
 }
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Block for a few milliseconds, since storage is synchronous
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  createSpeechEngine,
+  detectSpeechEngine,
+  SayEngine,
+  EspeakNgEngine,
+  SpdSayEngine,
+  PiperEngine,
+  SilentEngine,
+  parseSayVoices,
+  parseEspeakVoices,
+  parseSpdSayVoices,
+} from './speechEngine';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+
+// Mock child_process
+vi.mock('child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+describe('SpeechEngine', () => {
+  let mockProcesses: Array<EventEmitter & { kill: ReturnType<typeof vi.fn>; stdin: { end: ReturnType<typeof vi.fn> } }>;
+
+  beforeEach(() => {
+    mockProcesses = [];
+
+    // Mock spawn to return a new mock process each time
+    vi.mocked(spawn).mockImplementation(() => {
+      const mockProcess = Object.assign(new EventEmitter(), {
+        kill: vi.fn(),
+        stdin: { end: vi.fn() },
+      });
+      mockProcesses.push(mockProcess);
+      return mockProcess as any;
+    });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createSpeechEngine', () => {
+    it('should create each built-in engine by name', () => {
+      expect(createSpeechEngine('say')).toBeInstanceOf(SayEngine);
+      expect(createSpeechEngine('espeak-ng')).toBeInstanceOf(EspeakNgEngine);
+      expect(createSpeechEngine('spd-say')).toBeInstanceOf(SpdSayEngine);
+      expect(createSpeechEngine('piper')).toBeInstanceOf(PiperEngine);
+      expect(createSpeechEngine('silent')).toBeInstanceOf(SilentEngine);
+    });
+
+    it('should reject unknown engines', () => {
+      expect(() => createSpeechEngine('festival')).toThrow(/Unknown speech engine "festival"/);
+    });
+  });
+
+  describe('detectSpeechEngine', () => {
+    it('should pick the first engine that lists voices', async () => {
+      vi.mocked(spawn).mockImplementation(((command: string) => {
+        const mockProcess = Object.assign(new EventEmitter(), {
+          kill: vi.fn(),
+          stdout: new EventEmitter(),
+        });
+        setTimeout(() => {
+          if (command === 'say') {
+            mockProcess.emit('error', new Error('spawn say ENOENT'));
+            return;
+          }
+          mockProcess.stdout.emit('data', 'Pty Language Age/Gender VoiceName File\n 5  en-us  --/M  English  gmw/en-US\n');
+          mockProcess.emit('close', 0);
+        });
+        return mockProcess;
+      }) as any);
+
+      const { engine, voices } = await detectSpeechEngine();
+
+      expect(engine).toBeInstanceOf(EspeakNgEngine);
+      expect(voices).toEqual([{ name: 'en-us', locale: 'en-us', gender: 'male' }]);
+    });
+  });
+
+  describe('command engines', () => {
+    it('should pass the voice to espeak-ng', async () => {
+      const engine = new EspeakNgEngine();
+      const spoken = engine.speak('Hello', { voice: 'en-us' });
+      mockProcesses[0].emit('close', 0);
+
+      await expect(spoken).resolves.toBeUndefined();
+      expect(spawn).toHaveBeenCalledWith('espeak-ng', ['-v', 'en-us', 'Hello']);
+    });
+
+    it('should pass rate to say and ignore pitch', () => {
+      const engine = new SayEngine();
+      engine.speak('Hello', { voice: 'Alex', rate: 250, pitch: 70 });
+
+      expect(spawn).toHaveBeenCalledWith('say', ['-v', 'Alex', '-r', '250', 'Hello']);
+    });
+
+    it('should set the say volume with an embedded command', () => {
+      const engine = new SayEngine();
+      engine.speak('Hello', { volume: 50 });
+
+      expect(spawn).toHaveBeenCalledWith('say', ['[[volm 0.50]] Hello']);
+    });
+
+    it('should pass rate and pitch to espeak-ng', () => {
+      const engine = new EspeakNgEngine();
+      engine.speak('Hello', { rate: 250, pitch: 100, volume: 80 });
+
+      expect(spawn).toHaveBeenCalledWith('espeak-ng', ['-s', '250', '-p', '99', '-a', '80', 'Hello']);
+    });
+
+    it('should convert rate and pitch to relative scales for spd-say', () => {
+      const engine = new SpdSayEngine();
+      engine.speak('Hello', { rate: 270, pitch: 25, volume: 60 });
+
+      expect(spawn).toHaveBeenCalledWith('spd-say', ['-w', '-r', '50', '-p', '-50', '-i', '-40', 'Hello']);
+    });
+
+    it('should wait for spd-say to finish speaking', () => {
+      const engine = new SpdSayEngine();
+      engine.speak('Hello', { voice: 'Alex' });
+
+      expect(spawn).toHaveBeenCalledWith('spd-say', ['-w', '-y', 'Alex', 'Hello']);
+    });
+
+    it('should cancel the speech dispatcher when spd-say is stopped', () => {
+      const engine = new SpdSayEngine();
+      engine.speak('Hello');
+      engine.stop();
+
+      expect(mockProcesses[0].kill).toHaveBeenCalled();
+      expect(spawn).toHaveBeenLastCalledWith('spd-say', ['-C']);
+    });
+
+    it('should translate SSML to say embedded commands', () => {
+      const engine = new SayEngine();
+      engine.speak('Ready?<break time="300ms"/>Go', { format: 'ssml' });
+
+      expect(spawn).toHaveBeenCalledWith('say', ['Ready? [[slnc 300]] Go']);
+    });
+
+    it('should pass SSML to espeak-ng in markup mode', () => {
+      const engine = new EspeakNgEngine();
+      engine.speak('<speak>Ready?<break time="300ms"/>Go</speak>', { format: 'ssml' });
+
+      expect(spawn).toHaveBeenCalledWith('espeak-ng', ['-m', '<speak>Ready?<break time="300ms"/>Go</speak>']);
+    });
+
+    it('should pass SSML to spd-say in SSML mode', () => {
+      const engine = new SpdSayEngine();
+      engine.speak('Ready?<break time="300ms"/>Go', { format: 'ssml' });
+
+      expect(spawn).toHaveBeenCalledWith('spd-say', ['-w', '-x', '<speak>Ready?<break time="300ms"/>Go</speak>']);
+    });
+
+    it('should strip SSML for piper', () => {
+      const engine = new PiperEngine({ modelDir: '/models', defaultModel: 'en_US-lessac-medium' });
+      engine.speak('Error <say-as interpret-as="characters">E42</say-as>', { format: 'ssml' });
+
+      expect(mockProcesses[0].stdin.end).toHaveBeenCalledWith('Error E 4 2');
+    });
+
+    it('should render say output to an AIFF file', () => {
+      const engine = new SayEngine();
+      engine.synthesize('Hello', '/tmp/msg_1.aiff', { voice: 'Alex' });
+
+      expect(engine.audioFormat).toBe('aiff');
+      expect(spawn).toHaveBeenCalledWith('say', ['-o', '/tmp/msg_1.aiff', '-v', 'Alex', 'Hello']);
+    });
+
+    it('should render espeak-ng output to a WAV file', () => {
+      const engine = new EspeakNgEngine();
+      engine.synthesize('Hello', '/tmp/msg_1.wav', { rate: 200 });
+
+      expect(engine.audioFormat).toBe('wav');
+      expect(spawn).toHaveBeenCalledWith('espeak-ng', ['-w', '/tmp/msg_1.wav', '-s', '200', 'Hello']);
+    });
+
+    it('should reject when the command exits with an error', async () => {
+      const engine = new SayEngine();
+      const spoken = engine.speak('Hello');
+      mockProcesses[0].emit('close', 1);
+
+      await expect(spoken).rejects.toThrow('say command exited with code 1');
+    });
+
+    it('should render with piper and then play the file', async () => {
+      const engine = new PiperEngine({ modelDir: '/models', playerCommand: 'aplay' });
+      const spoken = engine.speak('Hello', { voice: 'en_US-lessac-medium' });
+
+      expect(spawn).toHaveBeenCalledWith('piper', [
+        '--model', '/models/en_US-lessac-medium.onnx',
+        '--output_file', expect.stringMatching(/\.wav$/),
+      ]);
+      expect(mockProcesses[0].stdin.end).toHaveBeenCalledWith('Hello');
+
+      mockProcesses[0].emit('close', 0);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(spawn).toHaveBeenLastCalledWith('aplay', [expect.stringMatching(/\.wav$/)]);
+
+      mockProcesses[1].emit('close', 0);
+      await expect(spoken).resolves.toBeUndefined();
+    });
+
+    it('should require a piper voice model', async () => {
+      const engine = new PiperEngine({ modelDir: '/models' });
+      delete process.env.PIPER_MODEL;
+
+      await expect(engine.speak('Hello')).rejects.toThrow(/requires a voice model/);
+    });
+  });
+
+  describe('silent engine', () => {
+    it('should resolve without spawning anything', async () => {
+      const engine = new SilentEngine();
+
+      await expect(engine.speak('Hello')).resolves.toBeUndefined();
+      expect(spawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voice parsing', () => {
+    it('should parse say voices including names with spaces', () => {
+      const output = [
+        'Alex                en_US    # Most people recognize me by my voice.',
+        'Eddy (English (UK)) en_GB    # Hello! My name is Eddy.',
+        '',
+      ].join('\n');
+
+      expect(parseSayVoices(output)).toEqual([
+        { name: 'Alex', locale: 'en_US' },
+        { name: 'Eddy (English (UK))', locale: 'en_GB' },
+      ]);
+    });
+
+    it('should parse espeak-ng voices with gender', () => {
+      const output = [
+        'Pty Language       Age/Gender VoiceName          File                 Other Languages',
+        ' 5  af              --/M      Afrikaans          gmw/af',
+        ' 2  en-us           --/F      English_(America)  gmw/en-US            (en 3)',
+        '',
+      ].join('\n');
+
+      expect(parseEspeakVoices(output)).toEqual([
+        { name: 'af', locale: 'af', gender: 'male' },
+        { name: 'en-us', locale: 'en-us', gender: 'female' },
+      ]);
+    });
+
+    it('should parse spd-say voices', () => {
+      const output = [
+        '     NAME                 LANGUAGE  VARIANT',
+        '          Afrikaans            af     none',
+        '  English (America)        en-US     none',
+        '',
+      ].join('\n');
+
+      expect(parseSpdSayVoices(output)).toEqual([
+        { name: 'Afrikaans', locale: 'af' },
+        { name: 'English (America)', locale: 'en-US' },
+      ]);
+    });
+  });
+});
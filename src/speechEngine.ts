@@ -0,0 +1,477 @@
+import { spawn, ChildProcess } from 'child_process';
+import { unlink, readdir } from 'fs';
+import { join, isAbsolute } from 'path';
+import { tmpdir } from 'os';
+import { parseSsml, toPlainText, toSayText, toSsml } from './ssml.js';
+
+export const MESSAGE_FORMATS = ['text', 'ssml'] as const;
+
+export type MessageFormat = typeof MESSAGE_FORMATS[number];
+
+export interface SpeechOptions {
+  voice?: string;
+  // Speaking rate in words per minute
+  rate?: number;
+  // Pitch from 0 to 100, where 50 is the voice's normal pitch
+  pitch?: number;
+  // Volume from 0 to 100, where 100 is the engine's normal volume
+  volume?: number;
+  // SSML is translated to the engine's own markup, or stripped if it has none
+  format?: MessageFormat;
+}
+
+// Typical default speaking rate, used to convert rates for engines with relative scales
+const DEFAULT_RATE = 180;
+
+// Audio file formats engines can render to
+export type AudioFormat = 'wav' | 'aiff';
+
+export interface VoiceInfo {
+  name: string;
+  locale?: string;
+  gender?: string;
+}
+
+/**
+ * A text-to-speech backend used by the MessageQueue to speak messages
+ */
+export interface SpeechEngine {
+  readonly name: string;
+  // Format of the files written by synthesize, for engines that can render to a file
+  readonly audioFormat?: AudioFormat;
+  // Engines that make no sound at all, so the queue does not play earcons either
+  readonly silent?: boolean;
+  speak(text: string, options?: SpeechOptions): Promise<void>;
+  // Render speech to an audio file instead of playing it; stop() aborts rendering
+  synthesize?(text: string, outputFile: string, options?: SpeechOptions): Promise<void>;
+  stop(): void;
+  listVoices(): Promise<VoiceInfo[]>;
+}
+
+export const SPEECH_ENGINES = ['say', 'espeak-ng', 'spd-say', 'piper', 'silent'] as const;
+
+export type SpeechEngineName = typeof SPEECH_ENGINES[number];
+
+// Engines probed by detectSpeechEngine, in order of preference
+const DETECTION_ORDER: SpeechEngineName[] = ['say', 'espeak-ng', 'spd-say', 'piper'];
+
+/**
+ * Base class for engines that speak by running an external command
+ */
+export abstract class ProcessSpeechEngine implements SpeechEngine {
+  abstract readonly name: string;
+  private currentProcess: ChildProcess | null = null;
+
+  abstract speak(text: string, options?: SpeechOptions): Promise<void>;
+  abstract listVoices(): Promise<VoiceInfo[]>;
+
+  /**
+   * Stop the command that is currently speaking
+   */
+  stop(): void {
+    if (this.currentProcess) {
+      this.currentProcess.kill();
+      this.currentProcess = null;
+    }
+  }
+
+  /**
+   * Run a command to completion, optionally writing input to its stdin
+   */
+  protected run(command: string, args: string[], input?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args);
+      this.currentProcess = child;
+
+      if (input !== undefined) {
+        child.stdin?.end(input);
+      }
+
+      child.on('close', (code) => {
+        if (this.currentProcess === child) {
+          this.currentProcess = null;
+        }
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} command exited with code ${code}`));
+        }
+      });
+
+      child.on('error', (error) => {
+        if (this.currentProcess === child) {
+          this.currentProcess = null;
+        }
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Run a command and collect its standard output
+   */
+  protected capture(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args);
+      let output = '';
+
+      child.stdout?.on('data', (chunk) => {
+        output += chunk.toString();
+      });
+
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve(output);
+        } else {
+          reject(new Error(`${command} command exited with code ${code}`));
+        }
+      });
+
+      child.on('error', reject);
+    });
+  }
+}
+
+/**
+ * macOS built-in `say` command
+ */
+export class SayEngine extends ProcessSpeechEngine {
+  readonly name = 'say';
+  readonly audioFormat = 'aiff';
+
+  speak(text: string, options: SpeechOptions = {}): Promise<void> {
+    return this.run('say', this.buildArgs(text, options));
+  }
+
+  synthesize(text: string, outputFile: string, options: SpeechOptions = {}): Promise<void> {
+    return this.run('say', ['-o', outputFile, ...this.buildArgs(text, options)]);
+  }
+
+  async listVoices(): Promise<VoiceInfo[]> {
+    const output = await this.capture('say', ['-v', '?']);
+    return parseSayVoices(output);
+  }
+
+  /**
+   * Build the arguments shared by speaking and rendering to a file
+   */
+  private buildArgs(text: string, options: SpeechOptions): string[] {
+    // say has no pitch flag, so pitch is ignored
+    const args: string[] = [];
+    if (options.voice) {
+      args.push('-v', options.voice);
+    }
+    if (options.rate !== undefined) {
+      args.push('-r', String(options.rate));
+    }
+    const spoken = options.format === 'ssml' ? toSayText(parseSsml(text), options) : text;
+    // Volume is only available as an embedded command
+    const input = options.volume !== undefined ? `[[volm ${(options.volume / 100).toFixed(2)}]] ${spoken}` : spoken;
+    return [...args, input];
+  }
+}
+
+/**
+ * eSpeak NG, available on most Linux distributions
+ */
+export class EspeakNgEngine extends ProcessSpeechEngine {
+  readonly name = 'espeak-ng';
+  readonly audioFormat = 'wav';
+
+  speak(text: string, options: SpeechOptions = {}): Promise<void> {
+    return this.run('espeak-ng', this.buildArgs(text, options));
+  }
+
+  synthesize(text: string, outputFile: string, options: SpeechOptions = {}): Promise<void> {
+    return this.run('espeak-ng', ['-w', outputFile, ...this.buildArgs(text, options)]);
+  }
+
+  async listVoices(): Promise<VoiceInfo[]> {
+    const output = await this.capture('espeak-ng', ['--voices']);
+    return parseEspeakVoices(output);
+  }
+
+  /**
+   * Build the arguments shared by speaking and rendering to a file
+   */
+  private buildArgs(text: string, options: SpeechOptions): string[] {
+    const args: string[] = [];
+    if (options.voice) {
+      args.push('-v', options.voice);
+    }
+    if (options.rate !== undefined) {
+      args.push('-s', String(options.rate));
+    }
+    if (options.pitch !== undefined) {
+      args.push('-p', String(Math.min(99, options.pitch)));
+    }
+    if (options.volume !== undefined) {
+      args.push('-a', String(options.volume));
+    }
+    if (options.format === 'ssml') {
+      // -m reads SSML markup, which is re-serialized from the validated subset
+      return [...args, '-m', toSsml(parseSsml(text))];
+    }
+    return [...args, text];
+  }
+}
+
+/**
+ * Speech Dispatcher client, which speaks through the user's configured synthesizer
+ */
+export class SpdSayEngine extends ProcessSpeechEngine {
+  readonly name = 'spd-say';
+
+  speak(text: string, options: SpeechOptions = {}): Promise<void> {
+    // -w blocks until the message has been spoken so the queue stays sequential
+    const args = ['-w'];
+    if (options.voice) {
+      args.push('-y', options.voice);
+    }
+    // Speech Dispatcher uses relative scales from -100 to 100
+    if (options.rate !== undefined) {
+      args.push('-r', String(toRelativeScale((options.rate - DEFAULT_RATE) / DEFAULT_RATE)));
+    }
+    if (options.pitch !== undefined) {
+      args.push('-p', String(toRelativeScale((options.pitch - 50) / 50)));
+    }
+    if (options.volume !== undefined) {
+      args.push('-i', String(toRelativeScale((options.volume - 100) / 100)));
+    }
+    if (options.format === 'ssml') {
+      return this.run('spd-say', [...args, '-x', toSsml(parseSsml(text))]);
+    }
+    return this.run('spd-say', [...args, text]);
+  }
+
+  stop(): void {
+    super.stop();
+    // Killing the client does not silence the dispatcher, so cancel explicitly
+    spawn('spd-say', ['-C']).on('error', () => {});
+  }
+
+  async listVoices(): Promise<VoiceInfo[]> {
+    const output = await this.capture('spd-say', ['-L']);
+    return parseSpdSayVoices(output);
+  }
+}
+
+export interface PiperEngineOptions {
+  modelDir?: string;
+  defaultModel?: string;
+  playerCommand?: string;
+}
+
+/**
+ * Piper neural TTS, which renders a WAV file that is then played back
+ */
+export class PiperEngine extends ProcessSpeechEngine {
+  readonly name = 'piper';
+  readonly audioFormat = 'wav';
+  private readonly modelDir: string;
+  private readonly defaultModel?: string;
+  private readonly playerCommand: string;
+  private generation = 0;
+
+  constructor(options: PiperEngineOptions = {}) {
+    super();
+    this.modelDir = options.modelDir ?? process.env.PIPER_MODEL_DIR ?? process.cwd();
+    this.defaultModel = options.defaultModel ?? process.env.PIPER_MODEL;
+    this.playerCommand = options.playerCommand ?? (process.platform === 'darwin' ? 'afplay' : 'aplay');
+  }
+
+  async speak(text: string, options: SpeechOptions = {}): Promise<void> {
+    const generation = ++this.generation;
+    const outputFile = join(tmpdir(), `talkback-piper-${process.pid}-${generation}.wav`);
+
+    try {
+      await this.synthesize(text, outputFile, options);
+      if (generation !== this.generation) {
+        throw new Error('piper playback was stopped');
+      }
+      await this.run(this.playerCommand, [outputFile]);
+    } finally {
+      unlink(outputFile, () => {});
+    }
+  }
+
+  async synthesize(text: string, outputFile: string, options: SpeechOptions = {}): Promise<void> {
+    const model = options.voice ?? this.defaultModel;
+    if (!model) {
+      throw new Error('piper requires a voice model; set PIPER_MODEL or assign a voice');
+    }
+
+    // piper controls speed through the phoneme length, and has no pitch or volume setting
+    const args = ['--model', this.resolveModel(model), '--output_file', outputFile];
+    if (options.rate !== undefined) {
+      args.push('--length_scale', (DEFAULT_RATE / options.rate).toFixed(2));
+    }
+
+    // piper reads plain text only
+    await this.run('piper', args, options.format === 'ssml' ? toPlainText(parseSsml(text)) : text);
+  }
+
+  stop(): void {
+    // Invalidate the in-flight message so playback does not start after synthesis
+    this.generation++;
+    super.stop();
+  }
+
+  /**
+   * List the .onnx voice models in the model directory
+   */
+  listVoices(): Promise<VoiceInfo[]> {
+    return new Promise((resolve) => {
+      readdir(this.modelDir, (error, files) => {
+        if (error) {
+          resolve([]);
+          return;
+        }
+        resolve(
+          files
+            .filter(file => file.endsWith('.onnx'))
+            .map(file => {
+              const name = file.slice(0, -'.onnx'.length);
+              const locale = name.match(/^([a-z]{2,3}_[A-Z]{2})-/)?.[1];
+              return locale ? { name, locale } : { name };
+            })
+        );
+      });
+    });
+  }
+
+  /**
+   * Resolve a model name to a path inside the model directory
+   */
+  private resolveModel(model: string): string {
+    if (isAbsolute(model) || model.endsWith('.onnx')) {
+      return model;
+    }
+    return join(this.modelDir, `${model}.onnx`);
+  }
+}
+
+/**
+ * No-op engine for CI and headless machines
+ */
+export class SilentEngine implements SpeechEngine {
+  readonly name = 'silent';
+  readonly silent = true;
+
+  async speak(): Promise<void> {}
+
+  stop(): void {}
+
+  async listVoices(): Promise<VoiceInfo[]> {
+    return [];
+  }
+}
+
+/**
+ * Parse the output of `say -v ?`, e.g. "Alex   en_US    # Most people recognize me by my voice."
+ */
+export function parseSayVoices(output: string): VoiceInfo[] {
+  const voices: VoiceInfo[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(.+?)\s+([a-z]{2,3}[_-][A-Za-z0-9]+)\s+#/);
+    if (match) {
+      voices.push({ name: match[1].trim(), locale: match[2] });
+    }
+  }
+
+  return voices;
+}
+
+/**
+ * Parse the output of `espeak-ng --voices`, whose columns are
+ * "Pty Language Age/Gender VoiceName File Other Languages"
+ */
+export function parseEspeakVoices(output: string): VoiceInfo[] {
+  const voices: VoiceInfo[] = [];
+
+  for (const line of output.split('\n').slice(1)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 4) {
+      continue;
+    }
+
+    const [, language, ageGender] = columns;
+    const gender = GENDERS[ageGender.split('/')[1]];
+    // espeak-ng selects voices by language code with -v
+    voices.push(gender ? { name: language, locale: language, gender } : { name: language, locale: language });
+  }
+
+  return voices;
+}
+
+/**
+ * Parse the output of `spd-say -L`, whose columns are "NAME LANGUAGE VARIANT"
+ */
+export function parseSpdSayVoices(output: string): VoiceInfo[] {
+  const voices: VoiceInfo[] = [];
+
+  for (const line of output.split('\n')) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 3 || columns[0] === 'NAME') {
+      continue;
+    }
+
+    // Names may contain spaces, so read the language and variant from the right
+    voices.push({ name: columns.slice(0, -2).join(' '), locale: columns[columns.length - 2] });
+  }
+
+  return voices;
+}
+
+/**
+ * Convert a fraction between -1 and 1 to an integer between -100 and 100
+ */
+function toRelativeScale(fraction: number): number {
+  return Math.round(Math.max(-1, Math.min(1, fraction)) * 100);
+}
+
+const GENDERS: Record<string, string> = {
+  M: 'male',
+  F: 'female',
+};
+
+/**
+ * Create a built-in speech engine by name
+ */
+export function createSpeechEngine(name: string): SpeechEngine {
+  switch (name) {
+    case 'say':
+      return new SayEngine();
+    case 'espeak-ng':
+      return new EspeakNgEngine();
+    case 'spd-say':
+      return new SpdSayEngine();
+    case 'piper':
+      return new PiperEngine();
+    case 'silent':
+      return new SilentEngine();
+    default:
+      throw new Error(`Unknown speech engine "${name}". Available engines: ${SPEECH_ENGINES.join(', ')}`);
+  }
+}
+
+/**
+ * Find the first installed engine that reports at least one voice,
+ * falling back to the silent engine when none is available
+ */
+export async function detectSpeechEngine(): Promise<{ engine: SpeechEngine; voices: VoiceInfo[] }> {
+  for (const name of DETECTION_ORDER) {
+    const engine = createSpeechEngine(name);
+    try {
+      const voices = await engine.listVoices();
+      if (voices.length > 0) {
+        return { engine, voices };
+      }
+    } catch {
+      // The engine is not installed, try the next one
+    }
+  }
+
+  return { engine: new SilentEngine(), voices: [] };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parseSsml, toPlainText, toSsml, toSayText, mapSsmlText, prependSsmlText, SsmlError } from './ssml';
+
+describe('ssml', () => {
+  describe('parseSsml', () => {
+    it('should parse the supported elements', () => {
+      const nodes = parseSsml('<speak>Error <say-as interpret-as="characters">E42</say-as><break time="1s"/><emphasis level="strong">now</emphasis></speak>');
+
+      expect(nodes).toEqual([
+        { type: 'text', text: 'Error ' },
+        { type: 'say-as', interpretAs: 'characters', children: [{ type: 'text', text: 'E42' }] },
+        { type: 'break', timeMs: 1000 },
+        { type: 'emphasis', level: 'strong', children: [{ type: 'text', text: 'now' }] },
+      ]);
+    });
+
+    it('should accept markup without a speak root and decode entities', () => {
+      expect(parseSsml('Tom &amp; Jerry<break strength="weak"/>')).toEqual([
+        { type: 'text', text: 'Tom & Jerry' },
+        { type: 'break', timeMs: 250 },
+      ]);
+    });
+
+    it('should reject unsupported elements', () => {
+      expect(() => parseSsml('<audio src="x.wav"/>')).toThrow(SsmlError);
+      expect(() => parseSsml('<audio src="x.wav"/>')).toThrow(/Unsupported SSML element <audio>/);
+    });
+
+    it('should reject unbalanced tags', () => {
+      expect(() => parseSsml('<emphasis>now')).toThrow(/Missing closing tag <\/emphasis>/);
+      expect(() => parseSsml('<emphasis>now</prosody>')).toThrow(/Unexpected closing tag <\/prosody>, expected <\/emphasis>/);
+    });
+
+    it('should reject malformed tags', () => {
+      expect(() => parseSsml('1 < 2')).toThrow(/Malformed tag at position 2/);
+    });
+
+    it('should reject invalid attribute values', () => {
+      expect(() => parseSsml('<break time="forever"/>')).toThrow(/Break time must be like 500ms/);
+      expect(() => parseSsml('<break time="60s"/>')).toThrow(/at most 10s/);
+      expect(() => parseSsml('<prosody rate="toString">Hi</prosody>')).toThrow(/Prosody rate/);
+      expect(() => parseSsml('<say-as interpret-as="date">today</say-as>')).toThrow(/interpret-as must be one of/);
+      expect(() => parseSsml('<emphasis volume="loud">Hi</emphasis>')).toThrow(/Unsupported attribute "volume"/);
+    });
+
+    it('should reject unknown entities', () => {
+      expect(() => parseSsml('Fish &chips;')).toThrow(/Unknown entity &chips;/);
+    });
+  });
+
+  describe('toPlainText', () => {
+    it('should strip markup and spell out characters', () => {
+      const nodes = parseSsml('<speak>Code <say-as interpret-as="characters">E42</say-as>.<break time="500ms"/><prosody rate="slow">Retry?</prosody></speak>');
+
+      expect(toPlainText(nodes)).toBe('Code E 4 2 . Retry?');
+    });
+  });
+
+  describe('toSsml', () => {
+    it('should serialize the validated markup', () => {
+      const nodes = parseSsml('<?xml version="1.0"?><speak version="1.1"><!-- note -->Tom &amp; Jerry<break strength="strong"/><prosody rate="120%" pitch="+10%">fast</prosody></speak>');
+
+      expect(toSsml(nodes)).toBe('<speak>Tom &amp; Jerry<break time="750ms"/><prosody rate="120%" pitch="+10%">fast</prosody></speak>');
+    });
+  });
+
+  describe('toSayText', () => {
+    it('should translate to say embedded commands', () => {
+      const nodes = parseSsml('Done.<break time="500ms"/>Code <say-as interpret-as="characters">E42</say-as>, <emphasis>really</emphasis> done');
+
+      expect(toSayText(nodes)).toBe('Done. [[slnc 500]] Code [[char LTRL]]E42[[char NORM]] , [[emph +]]really done');
+    });
+
+    it('should set prosody relative to the base rate and volume and restore it after', () => {
+      const nodes = parseSsml('<prosody rate="x-slow" volume="soft">Slowly</prosody> then normal');
+
+      expect(toSayText(nodes, { rate: 200, volume: 80 })).toBe('[[rate 100]][[volm 0.40]]Slowly[[rate 200]][[volm 0.80]] then normal');
+    });
+
+    it('should not pass embedded commands through from the text', () => {
+      expect(toSayText(parseSsml('Say [[rate 500]] fast'))).toBe('Say [ [rate 500]] fast');
+    });
+  });
+
+  describe('mapSsmlText', () => {
+    it('should only transform text between tags', () => {
+      expect(mapSsmlText('<break time="1s"/>time <emphasis>break</emphasis>', text => text.toUpperCase()))
+        .toBe('<break time="1s"/>TIME <emphasis>BREAK</emphasis>');
+    });
+
+    it('should transform decoded text and escape the result', () => {
+      const expand = (text: string) => text.replace(/\bamp\b/g, 'amplifier').replace(/\bRnD\b/g, 'R&D <team>');
+
+      expect(mapSsmlText('<speak>amp &amp; RnD</speak>', expand)).toBe('<speak>amplifier &amp; R&amp;D &lt;team&gt;</speak>');
+    });
+  });
+
+  describe('prependSsmlText', () => {
+    it('should insert escaped text inside the speak root', () => {
+      expect(prependSsmlText('<speak>Build <emphasis>failed</emphasis></speak>', 'Alex, R&D: '))
+        .toBe('<speak>Alex, R&amp;D: Build <emphasis>failed</emphasis></speak>');
+    });
+
+    it('should insert text at the start of markup without a speak root', () => {
+      expect(prependSsmlText('Done<break time="1s"/>', 'Alex: ')).toBe('Alex: Done<break time="1s"/>');
+    });
+  });
+});
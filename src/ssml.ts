@@ -0,0 +1,369 @@
+export type SsmlNode =
+  | { type: 'text'; text: string }
+  | { type: 'break'; timeMs: number }
+  | { type: 'emphasis'; level: string; children: SsmlNode[] }
+  | { type: 'say-as'; interpretAs: string; children: SsmlNode[] }
+  | { type: 'prosody'; rate?: string; pitch?: string; volume?: string; children: SsmlNode[] };
+
+/**
+ * Error for SSML that is malformed or uses elements outside the supported subset
+ */
+export class SsmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SsmlError';
+  }
+}
+
+// Longest pause a break may request, so a message cannot hold the shared queue
+const MAX_BREAK_MS = 10000;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  'none': 0,
+  'x-weak': 100,
+  'weak': 250,
+  'medium': 500,
+  'strong': 750,
+  'x-strong': 1000,
+};
+
+const EMPHASIS_LEVELS = ['strong', 'moderate', 'reduced', 'none'];
+
+const SAY_AS_TYPES = ['characters', 'spell-out', 'digits', 'cardinal'];
+
+// Speaking rate multipliers of the prosody rate keywords
+const PROSODY_RATES: Record<string, number> = {
+  'x-slow': 0.5,
+  'slow': 0.75,
+  'medium': 1,
+  'fast': 1.25,
+  'x-fast': 1.5,
+};
+
+// Volume multipliers of the prosody volume keywords
+const PROSODY_VOLUMES: Record<string, number> = {
+  'silent': 0,
+  'x-soft': 0.25,
+  'soft': 0.5,
+  'medium': 0.75,
+  'loud': 1,
+  'x-loud': 1,
+};
+
+const PROSODY_PITCHES = ['x-low', 'low', 'medium', 'high', 'x-high'];
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// Comments, XML declarations, tags, text, or a stray "<" that starts none of them
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\?xml[\s\S]*?\?>|<(\/?)([A-Za-z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>|[^<]+|</g;
+
+/**
+ * Parse the supported SSML subset: speak, break, emphasis, say-as and prosody.
+ * Throws an SsmlError describing the first problem found.
+ */
+export function parseSsml(input: string): SsmlNode[] {
+  const root: SsmlNode[] = [];
+  const stack: Array<{ name: string; attributes: Record<string, string>; children: SsmlNode[] }> = [];
+  const children = () => (stack.length > 0 ? stack[stack.length - 1].children : root);
+  let speakDepth = 0;
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, closing, tagName, attributeText, selfClosing] = match;
+
+    if (token.startsWith('<!--') || token.startsWith('<?xml')) {
+      continue;
+    }
+    if (token === '<') {
+      throw new SsmlError(`Malformed tag at position ${match.index}`);
+    }
+    if (tagName === undefined) {
+      children().push({ type: 'text', text: decodeEntities(token) });
+      continue;
+    }
+
+    const name = tagName.toLowerCase();
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new SsmlError(`Unexpected closing tag </${name}>${open ? `, expected </${open.name}>` : ''}`);
+      }
+      if (name === 'speak') {
+        speakDepth--;
+      } else {
+        children().push(createElement(open.name, open.attributes, open.children));
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeText);
+    if (name === 'speak') {
+      if (stack.length > 0 || speakDepth > 0) {
+        throw new SsmlError('<speak> must be the outermost element');
+      }
+      if (!selfClosing) {
+        speakDepth++;
+        stack.push({ name, attributes, children: root });
+      }
+      continue;
+    }
+
+    validateElement(name, attributes);
+    if (selfClosing) {
+      children().push(createElement(name, attributes, []));
+    } else {
+      stack.push({ name, attributes, children: [] });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new SsmlError(`Missing closing tag </${stack[stack.length - 1].name}>`);
+  }
+
+  return root;
+}
+
+/**
+ * Render SSML as plain text for engines without markup support. Characters
+ * and digits are spelled out by separating them with spaces.
+ */
+export function toPlainText(nodes: SsmlNode[]): string {
+  return renderPlain(nodes).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Serialize SSML for engines with native SSML support, such as espeak-ng and Speech Dispatcher
+ */
+export function toSsml(nodes: SsmlNode[]): string {
+  return `<speak>${nodes.map(serializeNode).join('')}</speak>`;
+}
+
+/**
+ * Render SSML with the embedded commands of macOS `say`. Prosody rate and volume
+ * are relative to the given base rate (words per minute) and volume (0 to 100).
+ * Emphasis applies to the first word of the emphasized text.
+ */
+export function toSayText(nodes: SsmlNode[], base: { rate?: number; volume?: number } = {}): string {
+  return renderSay(nodes, { rate: base.rate ?? 180, volume: (base.volume ?? 100) / 100 }).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Apply a transform to the text between tags, leaving the markup untouched. The
+ * transform sees decoded text, and its result is escaped again.
+ */
+export function mapSsmlText(ssml: string, transform: (text: string) => string): string {
+  return ssml.replace(/(<[^>]*>)|([^<]+)/g, (_match, tag: string | undefined, text: string | undefined) =>
+    tag ?? escapeXml(transform(decodeEntities(text!))));
+}
+
+/**
+ * Insert plain text before the spoken content, inside the <speak> root if there is one
+ */
+export function prependSsmlText(ssml: string, text: string): string {
+  const root = ssml.match(/^\s*(?:<\?[^>]*\?>\s*)?(?:<!--[\s\S]*?-->\s*)*<speak\b[^>]*>/);
+  const offset = root ? root[0].length : 0;
+  return ssml.slice(0, offset) + escapeXml(text) + ssml.slice(offset);
+}
+
+function createElement(name: string, attributes: Record<string, string>, children: SsmlNode[]): SsmlNode {
+  switch (name) {
+    case 'break':
+      if (children.length > 0) {
+        throw new SsmlError('<break> must be empty');
+      }
+      return { type: 'break', timeMs: parseBreakTime(attributes) };
+    case 'emphasis':
+      return { type: 'emphasis', level: attributes.level ?? 'moderate', children };
+    case 'say-as':
+      return { type: 'say-as', interpretAs: attributes['interpret-as'], children };
+    default:
+      return { type: 'prosody', rate: attributes.rate, pitch: attributes.pitch, volume: attributes.volume, children };
+  }
+}
+
+function validateElement(name: string, attributes: Record<string, string>): void {
+  switch (name) {
+    case 'break':
+      checkAttributes(name, attributes, ['time', 'strength']);
+      parseBreakTime(attributes);
+      return;
+    case 'emphasis':
+      checkAttributes(name, attributes, ['level']);
+      if (attributes.level !== undefined && !EMPHASIS_LEVELS.includes(attributes.level)) {
+        throw new SsmlError(`Emphasis level must be one of: ${EMPHASIS_LEVELS.join(', ')}`);
+      }
+      return;
+    case 'say-as':
+      checkAttributes(name, attributes, ['interpret-as']);
+      if (!SAY_AS_TYPES.includes(attributes['interpret-as'])) {
+        throw new SsmlError(`say-as interpret-as must be one of: ${SAY_AS_TYPES.join(', ')}`);
+      }
+      return;
+    case 'prosody':
+      checkAttributes(name, attributes, ['rate', 'pitch', 'volume']);
+      if (attributes.rate !== undefined && !hasKey(PROSODY_RATES, attributes.rate) && !/^\d+(\.\d+)?%$/.test(attributes.rate)) {
+        throw new SsmlError('Prosody rate must be x-slow, slow, medium, fast, x-fast or a percentage such as 120%');
+      }
+      if (attributes.pitch !== undefined && !PROSODY_PITCHES.includes(attributes.pitch) && !/^[+-]\d+(\.\d+)?%$/.test(attributes.pitch)) {
+        throw new SsmlError('Prosody pitch must be x-low, low, medium, high, x-high or a relative percentage such as +10%');
+      }
+      if (attributes.volume !== undefined && !hasKey(PROSODY_VOLUMES, attributes.volume)) {
+        throw new SsmlError(`Prosody volume must be one of: ${Object.keys(PROSODY_VOLUMES).join(', ')}`);
+      }
+      return;
+    default:
+      throw new SsmlError(`Unsupported SSML element <${name}>. Supported elements: speak, break, emphasis, say-as, prosody`);
+  }
+}
+
+function checkAttributes(name: string, attributes: Record<string, string>, allowed: string[]): void {
+  const unknown = Object.keys(attributes).find(attribute => !allowed.includes(attribute));
+  if (unknown) {
+    throw new SsmlError(`Unsupported attribute "${unknown}" on <${name}>`);
+  }
+}
+
+function parseAttributes(text: string | undefined): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of (text ?? '').matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted).trim();
+  }
+  return attributes;
+}
+
+function parseBreakTime(attributes: Record<string, string>): number {
+  if (attributes.time !== undefined) {
+    const match = attributes.time.match(/^(\d+(?:\.\d+)?)(ms|s)$/);
+    if (!match) {
+      throw new SsmlError(`Break time must be like 500ms or 1.5s, got "${attributes.time}"`);
+    }
+    const timeMs = Math.round(Number(match[1]) * (match[2] === 's' ? 1000 : 1));
+    if (timeMs > MAX_BREAK_MS) {
+      throw new SsmlError(`Break time must be at most ${MAX_BREAK_MS / 1000}s`);
+    }
+    return timeMs;
+  }
+
+  if (attributes.strength !== undefined) {
+    if (!hasKey(BREAK_STRENGTHS, attributes.strength)) {
+      throw new SsmlError(`Break strength must be one of: ${Object.keys(BREAK_STRENGTHS).join(', ')}`);
+    }
+    return BREAK_STRENGTHS[attributes.strength];
+  }
+
+  return BREAK_STRENGTHS.medium;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    if (!hasKey(ENTITIES, code)) {
+      throw new SsmlError(`Unknown entity ${entity}`);
+    }
+    return ENTITIES[code];
+  });
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Separate each character of spelled-out text with spaces
+ */
+function spellOut(text: string): string {
+  return [...text.replace(/\s+/g, '')].join(' ');
+}
+
+function textOf(nodes: SsmlNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'break') return ' ';
+    return textOf(node.children);
+  }).join('');
+}
+
+function renderPlain(nodes: SsmlNode[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return ' ';
+      case 'say-as':
+        return node.interpretAs === 'cardinal' ? renderPlain(node.children) : ` ${spellOut(textOf(node.children))} `;
+      default:
+        return renderPlain(node.children);
+    }
+  }).join('');
+}
+
+function serializeNode(node: SsmlNode): string {
+  switch (node.type) {
+    case 'text':
+      return escapeXml(node.text);
+    case 'break':
+      return `<break time="${node.timeMs}ms"/>`;
+    case 'emphasis':
+      return `<emphasis level="${node.level}">${node.children.map(serializeNode).join('')}</emphasis>`;
+    case 'say-as':
+      return `<say-as interpret-as="${node.interpretAs}">${node.children.map(serializeNode).join('')}</say-as>`;
+    case 'prosody': {
+      const attributes = (['rate', 'pitch', 'volume'] as const)
+        .filter(attribute => node[attribute] !== undefined)
+        .map(attribute => ` ${attribute}="${escapeXml(node[attribute]!)}"`)
+        .join('');
+      return `<prosody${attributes}>${node.children.map(serializeNode).join('')}</prosody>`;
+    }
+  }
+}
+
+function renderSay(nodes: SsmlNode[], base: { rate: number; volume: number }): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        // Keep message text from being read as embedded commands
+        return node.text.replace(/\[\[/g, '[ [');
+      case 'break':
+        return ` [[slnc ${node.timeMs}]] `;
+      case 'emphasis': {
+        const command = node.level === 'reduced' ? '[[emph -]]' : node.level === 'none' ? '' : '[[emph +]]';
+        return `${command}${renderSay(node.children, base)}`;
+      }
+      case 'say-as':
+        return node.interpretAs === 'cardinal'
+          ? renderSay(node.children, base)
+          : ` [[char LTRL]]${textOf(node.children).replace(/\[\[/g, '[ [')}[[char NORM]] `;
+      case 'prosody': {
+        const rate = node.rate ? Math.round(base.rate * parseMultiplier(node.rate, PROSODY_RATES)) : base.rate;
+        const volume = node.volume ? base.volume * PROSODY_VOLUMES[node.volume] : base.volume;
+        const inner = renderSay(node.children, { rate, volume });
+        // say has no pitch command that works across voices, so pitch is ignored like the -p option
+        const set = `${node.rate ? `[[rate ${rate}]]` : ''}${node.volume ? `[[volm ${volume.toFixed(2)}]]` : ''}`;
+        const reset = `${node.rate ? `[[rate ${base.rate}]]` : ''}${node.volume ? `[[volm ${base.volume.toFixed(2)}]]` : ''}`;
+        return ` ${set}${inner}${reset} `;
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Check for a keyword without matching inherited object properties such as "toString"
+ */
+function hasKey(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function parseMultiplier(value: string, keywords: Record<string, number>): number {
+  return hasKey(keywords, value) ? keywords[value] : Number(value.slice(0, -1)) / 100;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { splitIntoChunks, capChunks } from './textChunker';
+
+describe('textChunker', () => {
+  describe('splitIntoChunks', () => {
+    it('should split text into one chunk per sentence', () => {
+      const text = 'The build passed. Tests are running now! Should I deploy? Done…  Next';
+
+      expect(splitIntoChunks(text, 100)).toEqual([
+        'The build passed.',
+        'Tests are running now!',
+        'Should I deploy?',
+        'Done…',
+        'Next',
+      ]);
+    });
+
+    it('should not split on decimal points or file extensions', () => {
+      expect(splitIntoChunks('Version 3.14 of index.ts is out. Great.', 100)).toEqual([
+        'Version 3.14 of index.ts is out.',
+        'Great.',
+      ]);
+    });
+
+    it('should split long sentences at clause boundaries', () => {
+      const text = 'First I installed the dependencies, then I compiled the project; finally I ran the tests.';
+
+      expect(splitIntoChunks(text, 40)).toEqual([
+        'First I installed the dependencies,',
+        'then I compiled the project;',
+        'finally I ran the tests.',
+      ]);
+    });
+
+    it('should pack short clauses together', () => {
+      expect(splitIntoChunks('One, two, three, four, five and six.', 20)).toEqual([
+        'One, two, three,',
+        'four, five and six.',
+      ]);
+    });
+
+    it('should split long clauses between words', () => {
+      const chunks = splitIntoChunks('word '.repeat(30).trim(), 24);
+
+      expect(chunks.every(chunk => chunk.length <= 24)).toBe(true);
+      expect(chunks.join(' ')).toBe('word '.repeat(30).trim());
+    });
+
+    it('should cut words longer than a chunk', () => {
+      expect(splitIntoChunks('a'.repeat(25), 10)).toEqual(['a'.repeat(10), 'a'.repeat(10), 'a'.repeat(5)]);
+    });
+  });
+
+  describe('capChunks', () => {
+    it('should keep all chunks within the limit', () => {
+      expect(capChunks(['One.', 'Two.'], 100)).toEqual({ chunks: ['One.', 'Two.'], shortened: false });
+    });
+
+    it('should drop chunks beyond the limit', () => {
+      expect(capChunks(['First sentence.', 'Second sentence.', 'Third.'], 35)).toEqual({
+        chunks: ['First sentence.', 'Second sentence.'],
+        shortened: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Split text into chunks of at most maxChunkLength characters, one sentence per chunk.
+ * Sentences that are too long are split at clause boundaries, then between words.
+ */
+export function splitIntoChunks(text: string, maxChunkLength: number): string[] {
+  const chunks: string[] = [];
+
+  for (const sentence of splitAfter(text, /(?<=[.!?…])\s+/)) {
+    if (sentence.length <= maxChunkLength) {
+      chunks.push(sentence);
+      continue;
+    }
+
+    const clauses = packPieces(splitAfter(sentence, /(?<=[,;:])\s+/), maxChunkLength, false);
+    for (const clause of clauses) {
+      if (clause.length <= maxChunkLength) {
+        chunks.push(clause);
+        continue;
+      }
+
+      chunks.push(...packPieces(splitAfter(clause, /\s+/), maxChunkLength));
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Keep the leading chunks whose combined length fits within maxTotalLength.
+ * Returns the kept chunks and whether any were dropped.
+ */
+export function capChunks(chunks: string[], maxTotalLength: number): { chunks: string[]; shortened: boolean } {
+  const kept: string[] = [];
+  let total = 0;
+
+  for (const chunk of chunks) {
+    if (total + chunk.length > maxTotalLength) {
+      return { chunks: kept, shortened: true };
+    }
+    kept.push(chunk);
+    total += chunk.length + 1;
+  }
+
+  return { chunks: kept, shortened: false };
+}
+
+/**
+ * Split text on a separator, dropping empty pieces
+ */
+function splitAfter(text: string, separator: RegExp): string[] {
+  return text.split(separator).map(piece => piece.trim()).filter(piece => piece.length > 0);
+}
+
+/**
+ * Join consecutive pieces with spaces while they fit within maxLength.
+ * Single pieces longer than maxLength are kept whole, or cut into
+ * maxLength slices when cutLong is set.
+ */
+function packPieces(pieces: string[], maxLength: number, cutLong = true): string[] {
+  const packed: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + 1 + piece.length <= maxLength) {
+      current += ` ${piece}`;
+      continue;
+    }
+
+    if (current) {
+      packed.push(current);
+    }
+
+    if (piece.length <= maxLength || !cutLong) {
+      current = piece;
+      continue;
+    }
+
+    // A single word longer than a chunk, such as a long URL, is cut hard
+    for (let i = 0; i < piece.length; i += maxLength) {
+      packed.push(piece.slice(i, i + maxLength));
+    }
+    current = '';
+  }
+
+  if (current) {
+    packed.push(current);
+  }
+
+  return packed;
+}
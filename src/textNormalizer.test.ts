@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeText,
+  parseNormalizationRules,
+  removeCodeBlocks,
+  stripMarkdown,
+  speakUrlHosts,
+  shortenPaths,
+  splitIdentifiers,
+  expandAbbreviations,
+  removeEmoji,
+  NORMALIZATION_RULES,
+} from './textNormalizer';
+
+describe('textNormalizer', () => {
+  describe('removeCodeBlocks', () => {
+    it('should drop fenced code blocks', () => {
+      expect(removeCodeBlocks('Run this:\n```bash\nnpm install\n```\nthen start.')).toBe('Run this:\n \nthen start.');
+    });
+
+    it('should drop an unterminated code block', () => {
+      expect(removeCodeBlocks('Output:\n```\nline 1\nline 2')).toBe('Output:\n ');
+    });
+  });
+
+  describe('stripMarkdown', () => {
+    it('should remove emphasis and inline code markers', () => {
+      expect(stripMarkdown('**Done** with *all* the `tests` and ~~none~~ left')).toBe('Done with all the tests and none left');
+    });
+
+    it('should keep link and image text', () => {
+      expect(stripMarkdown('See [the docs](https://example.com) and ![diagram](a.png)')).toBe('See the docs and diagram');
+    });
+
+    it('should remove headings, bullets and quotes', () => {
+      expect(stripMarkdown('## Summary\n- First\n* Second\n> Quoted')).toBe('Summary\nFirst\nSecond\nQuoted');
+    });
+
+    it('should not treat snake_case underscores as emphasis', () => {
+      expect(stripMarkdown('Renamed max_rate and min_rate')).toBe('Renamed max_rate and min_rate');
+    });
+
+    it('should read table rows as lists', () => {
+      expect(stripMarkdown('| Test | Result |\n|------|--------|\n| unit | pass |')).toBe('Test, Result\n\nunit, pass');
+    });
+  });
+
+  describe('speakUrlHosts', () => {
+    it('should replace URLs with their host', () => {
+      expect(speakUrlHosts('Opened https://www.github.com/olivierodo/talkback-mcp/pull/12?tab=files for review'))
+        .toBe('Opened github.com for review');
+    });
+
+    it('should drop ports from the host', () => {
+      expect(speakUrlHosts('Server at http://localhost:3000/api')).toBe('Server at localhost');
+    });
+  });
+
+  describe('shortenPaths', () => {
+    it('should shorten absolute and relative paths to their base name', () => {
+      expect(shortenPaths('Edited /Users/me/project/src/index.ts and ./src/messageQueue.ts'))
+        .toBe('Edited index.ts and messageQueue.ts');
+    });
+
+    it('should shorten paths without a leading slash when they name a file', () => {
+      expect(shortenPaths('Updated src/speech/engine.ts')).toBe('Updated engine.ts');
+    });
+
+    it('should shorten Windows paths', () => {
+      expect(shortenPaths('Wrote C:\\Users\\me\\notes.txt')).toBe('Wrote notes.txt');
+    });
+
+    it('should leave word pairs with slashes alone', () => {
+      expect(shortenPaths('Read and/or write')).toBe('Read and/or write');
+    });
+
+    it('should leave prose that only looks like a relative path alone', () => {
+      expect(shortenPaths('Use React/Vue.js')).toBe('Use React/Vue.js');
+      expect(shortenPaths('Ratio is 3/4.5')).toBe('Ratio is 3/4.5');
+    });
+
+    it('should shorten relative paths of three segments or with a file extension', () => {
+      expect(shortenPaths('Look in docs/api/guides and lib/util.py')).toBe('Look in guides and util.py');
+    });
+  });
+
+  describe('splitIdentifiers', () => {
+    it('should split camelCase identifiers', () => {
+      expect(splitIdentifiers('Called getUserName on the queue')).toBe('Called get User Name on the queue');
+    });
+
+    it('should leave product names and capitalized words whole', () => {
+      expect(splitIdentifiers('Ported MessageQueue to JavaScript on macOS and iOS'))
+        .toBe('Ported MessageQueue to JavaScript on macOS and iOS');
+    });
+
+    it('should keep acronyms together', () => {
+      expect(splitIdentifiers('parseHTTPResponse')).toBe('parse HTTP Response');
+    });
+
+    it('should split snake_case and constant identifiers', () => {
+      expect(splitIdentifiers('Set max_message_length and MAX_RATE')).toBe('Set max message length and MAX RATE');
+    });
+  });
+
+  describe('expandAbbreviations', () => {
+    it('should expand developer abbreviations', () => {
+      expect(expandAbbreviations('Ran npm test in the CLI, opened a PR for the TS code'))
+        .toBe('Ran N P M test in the C L I, opened a pull request for the TypeScript code');
+    });
+
+    it('should only expand whole words', () => {
+      expect(expandAbbreviations('PRINT the TSV')).toBe('PRINT the TSV');
+    });
+  });
+
+  describe('removeEmoji', () => {
+    it('should drop emoji including joined sequences and flags', () => {
+      expect(removeEmoji('Tests pass ✅ 🎉 👩‍💻 🇫🇷!')).toBe('Tests pass    !');
+    });
+  });
+
+  describe('normalizeText', () => {
+    it('should apply every rule by default and collapse whitespace', () => {
+      const text = '## Build fixed 🎉\nUpdated `parseConfig` in /repo/src/config.ts, see https://github.com/org/repo/pull/4\n```ts\nconst a = 1;\n```\nOpening a PR now.';
+
+      expect(normalizeText(text)).toBe('Build fixed Updated parse Config in config.ts, see github.com Opening a pull request now.');
+    });
+
+    it('should expand abbreviations before splitting identifiers', () => {
+      expect(normalizeText('Opened two PRs for the JavaScript client')).toBe('Opened two pull requests for the JavaScript client');
+    });
+
+    it('should only apply the given rules', () => {
+      expect(normalizeText('**Run** npm in ./src/index.ts', ['markdown'])).toBe('Run npm in ./src/index.ts');
+    });
+
+    it('should leave text untouched apart from whitespace with no rules', () => {
+      expect(normalizeText('  **Run**\n npm  ', [])).toBe('**Run** npm');
+    });
+  });
+
+  describe('parseNormalizationRules', () => {
+    it('should parse a list of rules', () => {
+      expect(parseNormalizationRules('markdown, urls')).toEqual(['markdown', 'urls']);
+    });
+
+    it('should support all and none', () => {
+      expect(parseNormalizationRules('all')).toEqual([...NORMALIZATION_RULES]);
+      expect(parseNormalizationRules('none')).toEqual([]);
+    });
+
+    it('should reject unknown rules', () => {
+      expect(() => parseNormalizationRules('markdown,spelling')).toThrow(/Unknown normalization rule "spelling"/);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Normalization rules in the order they are applied. Code blocks go first so their
+ * content is never spoken, URLs before paths since both contain slashes, and
+ * abbreviations before identifiers so words such as "PRs" are not split.
+ */
+export const NORMALIZATION_RULES = [
+  'codeBlocks',
+  'markdown',
+  'urls',
+  'paths',
+  'abbreviations',
+  'identifiers',
+  'emoji',
+] as const;
+
+export type NormalizationRule = typeof NORMALIZATION_RULES[number];
+
+// Spoken forms of developer abbreviations that engines read as words or mispronounce
+const ABBREVIATIONS: Record<string, string> = {
+  npm: 'N P M',
+  CLI: 'C L I',
+  PR: 'pull request',
+  PRs: 'pull requests',
+  TS: 'TypeScript',
+  JS: 'JavaScript',
+  API: 'A P I',
+  CI: 'C I',
+  UI: 'U I',
+  JSON: 'jason',
+  SQL: 'sequel',
+};
+
+/**
+ * Drop fenced code blocks, which are meant to be read rather than heard
+ */
+export function removeCodeBlocks(text: string): string {
+  return text.replace(/(```|~~~)[\s\S]*?(\1|$)/g, ' ');
+}
+
+/**
+ * Strip Markdown formatting, keeping the text it formats
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*(?:[-*_]\s*){3,}$/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*(?::?-+:?[ \t]*)?$/gm, '')
+    .replace(/^[ \t]*\|[ \t]*(.*?)[ \t]*\|?[ \t]*$/gm, '$1')
+    .replace(/[ \t]*\|[ \t]*/g, ', ')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(?=\S)([^*_\n]*?\S)\2(?![\w*])/g, '$1$3')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    .replace(/`([^`\n]*)`/g, '$1');
+}
+
+/**
+ * Speak URLs as their host name
+ */
+export function speakUrlHosts(text: string): string {
+  return text.replace(/\b(?:https?|ftp):\/\/(?:www\.)?([^\s/:?#]+)[^\s)\]>]*/gi, '$1');
+}
+
+// Extensions that mark a word with a single slash as a file rather than prose
+const FILE_EXTENSIONS = [
+  'ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'json', 'md', 'txt', 'py', 'rb', 'go', 'rs',
+  'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'yml', 'yaml', 'toml', 'xml',
+  'html', 'css', 'scss', 'sql', 'vue', 'svelte', 'lock', 'log',
+];
+
+// Absolute paths, paths from the home or current directory, relative paths of three
+// segments or more, and relative paths of two segments naming a file. Those two-segment
+// paths start lowercase, since capitalized pairs such as "React/Vue.js" are alternatives
+// in prose.
+const PATH_PATTERN = new RegExp([
+  String.raw`(?:~|\.{1,2})?(?:\/[\w.@-]+){2,}\/?`,
+  String.raw`(?:~|\.{1,2})\/[\w.@-]+`,
+  String.raw`\b[\w@-][\w.@-]*(?:\/[\w.@-]+){2,}\/?`,
+  String.raw`\b[a-z_][\w.@-]*\/[\w.@-]*\.(?:${FILE_EXTENSIONS.join('|')})\b`,
+].join('|'), 'g');
+
+/**
+ * Shorten file paths to their base name
+ */
+export function shortenPaths(text: string): string {
+  return text
+    .replace(PATH_PATTERN, basename)
+    .replace(/\b[A-Za-z]:\\(?:[\w. -]+\\)*[\w.-]+/g, basename);
+}
+
+// Words that look like code rather than prose: a camelCase hump after a lowercase start, or an underscore
+const CODE_IDENTIFIER_PATTERN = /^[a-z][a-z\d]*[A-Z]+[a-z\d]|[A-Za-z\d]_+[A-Za-z\d]/;
+
+/**
+ * Split camelCase and snake_case identifiers into words, leaving product
+ * names such as JavaScript and macOS as they are
+ */
+export function splitIdentifiers(text: string): string {
+  return text.replace(/[A-Za-z\d_]+/g, word => {
+    if (!CODE_IDENTIFIER_PATTERN.test(word)) {
+      return word;
+    }
+    return word
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .replace(/([A-Za-z\d])_+(?=[A-Za-z\d])/g, '$1 ');
+  });
+}
+
+/**
+ * Expand common developer abbreviations into their spoken form
+ */
+export function expandAbbreviations(text: string): string {
+  return text.replace(/\b[A-Za-z]+\b/g, word => ABBREVIATIONS[word] ?? word);
+}
+
+/**
+ * Drop emoji, which engines either skip or read out by name
+ */
+export function removeEmoji(text: string): string {
+  return text.replace(/[\p{Extended_Pictographic}\u{1F1E6}-\u{1F1FF}\u{FE0F}\u{200D}\u{20E3}]/gu, '');
+}
+
+const NORMALIZERS: Record<NormalizationRule, (text: string) => string> = {
+  codeBlocks: removeCodeBlocks,
+  markdown: stripMarkdown,
+  urls: speakUrlHosts,
+  paths: shortenPaths,
+  abbreviations: expandAbbreviations,
+  identifiers: splitIdentifiers,
+  emoji: removeEmoji,
+};
+
+/**
+ * Make text suitable for speech by applying the enabled normalization rules
+ * and collapsing whitespace
+ */
+export function normalizeText(text: string, rules: readonly NormalizationRule[] = NORMALIZATION_RULES): string {
+  const normalized = NORMALIZATION_RULES
+    .filter(rule => rules.includes(rule))
+    .reduce((result, rule) => NORMALIZERS[rule](result), text);
+
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse a comma-separated list of rule names, where "all" enables every rule and "none" disables them
+ */
+export function parseNormalizationRules(value: string): NormalizationRule[] {
+  const names = value.split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+  if (names.length === 1 && names[0] === 'all') {
+    return [...NORMALIZATION_RULES];
+  }
+  if (names.length === 1 && names[0] === 'none') {
+    return [];
+  }
+
+  return names.map(name => {
+    if (!(NORMALIZATION_RULES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown normalization rule "${name}". Available rules: ${NORMALIZATION_RULES.join(', ')}`);
+    }
+    return name as NormalizationRule;
+  });
+}
+
+/**
+ * Last segment of a Unix or Windows path
+ */
+function basename(path: string): string {
+  return path.replace(/[\\/]+$/, '').split(/[\\/]/).pop() ?? path;
+}
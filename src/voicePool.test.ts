@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { VoicePool, matchesLocale } from './voicePool';
+
+describe('VoicePool', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('load', () => {
+    it('should keep preferred voices that are installed, in preferred order', () => {
+      const pool = new VoicePool(['Alex', 'Veena', 'Daniel']);
+      pool.load([
+        { name: 'Daniel', locale: 'en_GB' },
+        { name: 'Alex', locale: 'en_US' },
+        { name: 'Zarvox', locale: 'en_US' },
+      ], 'en');
+
+      expect(pool.list().map(v => v.name)).toEqual(['Alex', 'Daniel']);
+      expect(pool.isVerified()).toBe(true);
+    });
+
+    it('should use all installed voices for the locale when no preferred voice is installed', () => {
+      const pool = new VoicePool(['Alex']);
+      pool.load([
+        { name: 'en-us', locale: 'en-us' },
+        { name: 'fr', locale: 'fr' },
+        { name: 'en-gb', locale: 'en-gb' },
+      ], 'en');
+
+      expect(pool.list().map(v => v.name)).toEqual(['en-us', 'en-gb']);
+    });
+
+    it('should fall back to all installed voices when none match the locale', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const pool = new VoicePool([]);
+      pool.load([{ name: 'fr', locale: 'fr' }], 'en');
+
+      expect(pool.list().map(v => v.name)).toEqual(['fr']);
+    });
+
+    it('should keep preferred voices unverified when the engine lists none', () => {
+      const pool = new VoicePool(['Alex', 'Daniel']);
+      pool.load([], 'en');
+
+      expect(pool.list().map(v => v.name)).toEqual(['Alex', 'Daniel']);
+      expect(pool.isVerified()).toBe(false);
+    });
+  });
+
+  describe('next', () => {
+    it('should rotate only through verified voices', () => {
+      const pool = new VoicePool(['Alex', 'Veena', 'Daniel']);
+      pool.load([{ name: 'Alex', locale: 'en_US' }, { name: 'Daniel', locale: 'en_GB' }], 'en');
+
+      expect([pool.next(), pool.next(), pool.next()]).toEqual(['Alex', 'Daniel', 'Alex']);
+    });
+
+    it('should throw when there are no voices at all', () => {
+      const pool = new VoicePool([]);
+
+      expect(() => pool.next()).toThrow('No voices are available');
+    });
+
+    it('should hand out released voices before continuing the rotation', () => {
+      const pool = new VoicePool(['Alex', 'Daniel', 'Karen']);
+      pool.next();
+      pool.next();
+
+      pool.release('Alex');
+      pool.release('Alex');
+      pool.release('Zarvox');
+
+      expect([pool.next(), pool.next()]).toEqual(['Alex', 'Karen']);
+    });
+
+    it('should skip voices held by other sessions', () => {
+      const pool = new VoicePool(['Alex', 'Daniel', 'Karen']);
+      const held = new Set(['Alex', 'Karen']);
+
+      expect([pool.next({ held }), pool.next({ held })]).toEqual(['Daniel', 'Daniel']);
+    });
+
+    it('should derive the same voice from the same key regardless of rotation', () => {
+      const first = new VoicePool(['Alex', 'Daniel', 'Karen']);
+      const second = new VoicePool(['Alex', 'Daniel', 'Karen']);
+      second.next();
+
+      expect(second.next({ key: 'session-1' })).toBe(first.next({ key: 'session-1' }));
+    });
+
+    it('should move past a derived voice that is held', () => {
+      const pool = new VoicePool(['Alex', 'Daniel', 'Karen']);
+      const derived = pool.next({ key: 'session-1' });
+
+      expect(pool.next({ key: 'session-1', held: new Set([derived]) })).not.toBe(derived);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return installed voices unchanged', () => {
+      const pool = new VoicePool(['Alex']);
+      pool.load([{ name: 'Alex', locale: 'en_US' }], 'en');
+
+      expect(pool.resolve('Alex')).toBe('Alex');
+    });
+
+    it('should fall back to the default voice when a voice is missing', () => {
+      const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const pool = new VoicePool(['Alex']);
+      pool.load([{ name: 'Alex', locale: 'en_US' }], 'en');
+
+      expect(pool.resolve('Veena')).toBeUndefined();
+      expect(pool.resolve('Veena')).toBeUndefined();
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should trust any voice when the pool is unverified', () => {
+      const pool = new VoicePool(['Alex']);
+
+      expect(pool.resolve('Veena')).toBe('Veena');
+    });
+  });
+
+  describe('installed voices', () => {
+    it('should accept installed voices outside the rotation', () => {
+      const pool = new VoicePool(['Alex']);
+      pool.load([{ name: 'Alex', locale: 'en_US' }, { name: 'Amelie', locale: 'fr_CA' }], 'en');
+
+      expect(pool.has('Amelie')).toBe(false);
+      expect(pool.isInstalled('Amelie')).toBe(true);
+      expect(pool.resolve('Amelie')).toBe('Amelie');
+      expect(pool.isInstalled('Veena')).toBe(false);
+    });
+
+    it('should list installed voices filtered by locale', () => {
+      const pool = new VoicePool([]);
+      pool.load([{ name: 'Alex', locale: 'en_US' }, { name: 'Amelie', locale: 'fr_CA' }]);
+
+      expect(pool.installed()).toHaveLength(2);
+      expect(pool.installed('fr')).toEqual([{ name: 'Amelie', locale: 'fr_CA' }]);
+    });
+  });
+
+  describe('matchesLocale', () => {
+    it('should match language prefixes across separators and case', () => {
+      expect(matchesLocale('en_US', 'en')).toBe(true);
+      expect(matchesLocale('en-us', 'en-US')).toBe(true);
+      expect(matchesLocale('en', 'en')).toBe(true);
+      expect(matchesLocale('eo', 'e')).toBe(false);
+      expect(matchesLocale(undefined, 'en')).toBe(false);
+    });
+  });
+});
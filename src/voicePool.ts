@@ -0,0 +1,164 @@
+import { VoiceInfo } from './speechEngine.js';
+import { hashIndex, pickFree } from './assignment.js';
+
+export interface VoiceRequest {
+  // Voices of other sessions, skipped unless every voice is held
+  held?: ReadonlySet<string>;
+  // Derive the voice from this key, such as the session ID, instead of taking the next in rotation
+  key?: string;
+}
+
+/**
+ * Pool of voices that sessions are assigned from, built from the voices
+ * the active speech engine reports as installed
+ */
+export class VoicePool {
+  private readonly preferred: string[];
+  private voices: VoiceInfo[];
+  private installedVoices: VoiceInfo[] = [];
+  private verified = false;
+  private index = 0;
+  // Voices of removed sessions, handed out again before the rotation continues
+  private released: string[] = [];
+  private readonly warnedVoices = new Set<string>();
+
+  constructor(preferred: string[] = []) {
+    this.preferred = preferred;
+    this.voices = preferred.map(name => ({ name }));
+  }
+
+  /**
+   * Build the pool from discovered voices, keeping those that match the locale.
+   * Preferred voices that are installed come first; when none of them are,
+   * every installed voice for the locale is used instead.
+   */
+  load(discovered: VoiceInfo[], locale?: string): void {
+    this.index = 0;
+    this.released = [];
+    this.installedVoices = [...discovered];
+
+    if (discovered.length === 0) {
+      // The engine cannot list voices, so keep the preferred names unverified
+      this.voices = this.preferred.map(name => ({ name }));
+      this.verified = false;
+      return;
+    }
+
+    let candidates = locale
+      ? discovered.filter(voice => matchesLocale(voice.locale, locale))
+      : discovered;
+
+    if (candidates.length === 0) {
+      console.error(`No voices found for locale "${locale}", using all ${discovered.length} installed voices`);
+      candidates = discovered;
+    }
+
+    const installedPreferred = this.preferred
+      .map(name => candidates.find(voice => voice.name === name))
+      .filter((voice): voice is VoiceInfo => voice !== undefined);
+
+    this.voices = installedPreferred.length > 0 ? installedPreferred : candidates;
+    this.verified = true;
+  }
+
+  /**
+   * Get the next voice in rotation, or the voice derived from a key, preferring voices that are not held
+   */
+  next({ held = new Set(), key }: VoiceRequest = {}): string {
+    if (this.voices.length === 0) {
+      throw new Error('No voices are available');
+    }
+
+    const names = this.voices.map(voice => voice.name);
+    if (key !== undefined) {
+      return pickFree(names, hashIndex(key, names.length), held);
+    }
+
+    const released = this.released.findIndex(voice => !held.has(voice));
+    if (released !== -1) {
+      return this.released.splice(released, 1)[0];
+    }
+
+    const voice = pickFree(names, this.index % names.length, held);
+    this.index = names.indexOf(voice) + 1;
+    return voice;
+  }
+
+  /**
+   * Return the voice of a removed session to the rotation, so the next session gets it
+   */
+  release(voice: string): void {
+    if (this.has(voice) && !this.released.includes(voice)) {
+      this.released.push(voice);
+    }
+  }
+
+  /**
+   * Resolve a requested voice to one the engine can speak with.
+   * Returns undefined to fall back to the engine's default voice.
+   */
+  resolve(voice: string): string | undefined {
+    if (this.isInstalled(voice)) {
+      return voice;
+    }
+
+    if (!this.warnedVoices.has(voice)) {
+      this.warnedVoices.add(voice);
+      console.error(`Voice "${voice}" is not installed, using the engine's default voice`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if a voice is in the pool
+   */
+  has(voice: string): boolean {
+    return this.voices.some(v => v.name === voice);
+  }
+
+  /**
+   * Check if a voice can be spoken by the engine. Any voice is accepted
+   * when the engine could not report its installed voices.
+   */
+  isInstalled(voice: string): boolean {
+    return !this.verified || this.installedVoices.some(v => v.name === voice);
+  }
+
+  /**
+   * Get the voices in the pool
+   */
+  list(): VoiceInfo[] {
+    return [...this.voices];
+  }
+
+  /**
+   * Get every voice the engine reported as installed, optionally filtered by locale
+   */
+  installed(locale?: string): VoiceInfo[] {
+    return locale
+      ? this.installedVoices.filter(voice => matchesLocale(voice.locale, locale))
+      : [...this.installedVoices];
+  }
+
+  /**
+   * Whether the pool was built from voices the engine reported as installed
+   */
+  isVerified(): boolean {
+    return this.verified;
+  }
+}
+
+/**
+ * Match a voice locale such as "en_US" or "en-us" against a filter such as "en" or "en-US"
+ */
+export function matchesLocale(voiceLocale: string | undefined, locale: string): boolean {
+  if (!voiceLocale) {
+    return false;
+  }
+
+  const normalize = (value: string) => value.toLowerCase().replace(/_/g, '-');
+  const voice = normalize(voiceLocale);
+  const filter = normalize(locale);
+
+  return voice === filter || voice.startsWith(`${filter}-`);
+}